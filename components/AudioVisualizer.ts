@@ -0,0 +1,365 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+
+export type VisualizerStyle = 'bars' | 'spectrogram' | 'waveform' | 'scope';
+
+const STYLE_LABELS: Record<VisualizerStyle, string> = {
+  bars: 'Spectrum',
+  spectrogram: 'Spectrogram',
+  waveform: 'Waveform',
+  scope: 'Scope',
+};
+
+const MIN_HZ = 30;
+const MAX_HZ = 16000;
+const BAR_COUNT = 64;
+/** Range the level meters cover, in dBFS. */
+const METER_FLOOR_DB = -60;
+const PEAK_HOLD_MS = 1000;
+const PEAK_FALL_DB_PER_SECOND = 20;
+/** Pixels the spectrogram and waveform scroll per frame. */
+const SCROLL_PX = 2;
+
+/** Black through purple and orange to pale yellow, for spectrogram intensity 0-1. */
+function heatColor(v: number): [number, number, number] {
+  const stops: Array<[number, number, number]> = [
+    [0, 0, 0],
+    [80, 18, 123],
+    [230, 81, 66],
+    [252, 253, 191],
+  ];
+  const x = Math.min(Math.max(v, 0), 1) * (stops.length - 1);
+  const i = Math.min(Math.floor(x), stops.length - 2);
+  const t = x - i;
+  const [a, b] = [stops[i], stops[i + 1]];
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+/**
+ * Draws the signal reaching `analyser` as a spectrum, spectrogram, scrolling
+ * waveform or scope, with RMS and peak meters alongside. Projector mode fills
+ * the screen for a venue display; Escape leaves it.
+ */
+@customElement('audio-visualizer')
+export class AudioVisualizer extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      left: 5px;
+      bottom: 5px;
+      z-index: 6;
+      width: clamp(200px, 22vw, 360px);
+      height: clamp(80px, 14vh, 160px);
+      display: block;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      overflow: hidden;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    :host([projector]) {
+      inset: 0;
+      width: 100vw;
+      height: 100vh;
+      z-index: 100;
+      background: #000;
+      border: none;
+      border-radius: 0;
+    }
+    canvas {
+      width: 100%;
+      height: 100%;
+      display: block;
+    }
+    #toolbar {
+      position: absolute;
+      top: 4px;
+      right: 4px;
+      display: flex;
+      gap: 4px;
+      opacity: 0;
+      transition: opacity 0.2s;
+    }
+    :host(:hover) #toolbar {
+      opacity: 1;
+    }
+    select,
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #000a;
+      border: 1px solid #fff;
+      border-radius: 4px;
+      padding: 1px 4px;
+    }
+  `;
+
+  @property({ type: Object }) analyser: AnalyserNode | null = null;
+  @property({ type: String }) visualStyle: VisualizerStyle = 'bars';
+  @property({ type: Boolean, reflect: true }) projector = false;
+  /** Colour for the bars, waveform and scope. */
+  @property({ type: String }) color = '#fff';
+
+  @query('canvas') private canvas!: HTMLCanvasElement;
+
+  private ctx: CanvasRenderingContext2D | null = null;
+  private freqData: Float32Array<ArrayBuffer> = new Float32Array(0);
+  private timeData: Float32Array<ArrayBuffer> = new Float32Array(0);
+  private rafId: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private peakHoldDb = -Infinity;
+  private peakHoldMs = 0;
+  private lastFrameMs = 0;
+
+  override connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener('fullscreenchange', this.handleFullscreenChange);
+    document.addEventListener('keydown', this.handleKeyDown);
+    if (this.hasUpdated) this.startLoop();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener('fullscreenchange', this.handleFullscreenChange);
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.resizeObserver?.disconnect();
+    if (this.rafId) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+  }
+
+  override firstUpdated() {
+    this.ctx = this.canvas.getContext('2d');
+    this.resizeObserver = new ResizeObserver(() => this.resizeCanvas());
+    this.resizeObserver.observe(this.canvas);
+    this.startLoop();
+  }
+
+  override updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('analyser') && this.analyser) {
+      this.freqData = new Float32Array(this.analyser.frequencyBinCount);
+      this.timeData = new Float32Array(this.analyser.fftSize);
+    }
+    if (changedProperties.has('visualStyle')) this.clear();
+  }
+
+  private readonly handleFullscreenChange = () => {
+    if (!document.fullscreenElement) this.projector = false;
+  };
+
+  private readonly handleKeyDown = (e: KeyboardEvent) => {
+    // the browser handles Escape itself while fullscreen
+    if (e.key === 'Escape' && this.projector && !document.fullscreenElement) this.projector = false;
+  };
+
+  private async toggleProjector() {
+    this.projector = !this.projector;
+    try {
+      if (this.projector) {
+        await this.requestFullscreen();
+      } else if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      }
+    } catch {
+      // fullscreen can be refused; the fixed overlay still covers the window
+    }
+  }
+
+  private handleStyleChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    this.visualStyle = select.value as VisualizerStyle;
+  }
+
+  private resizeCanvas() {
+    const { clientWidth, clientHeight } = this.canvas;
+    this.canvas.width = Math.round(clientWidth * devicePixelRatio);
+    this.canvas.height = Math.round(clientHeight * devicePixelRatio);
+    this.clear();
+  }
+
+  private clear() {
+    if (!this.ctx) return;
+    this.ctx.fillStyle = '#000';
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  private startLoop() {
+    if (this.rafId !== null) return;
+    const loop = () => {
+      this.rafId = requestAnimationFrame(loop);
+      this.draw();
+    };
+    loop();
+  }
+
+  /** 0-1, a spectrum value scaled between the analyser's min and max decibels. */
+  private scaleDb(db: number) {
+    const { minDecibels, maxDecibels } = this.analyser!;
+    return Math.min(Math.max((db - minDecibels) / (maxDecibels - minDecibels), 0), 1);
+  }
+
+  /** Spectrum value at `fraction` of the way along a log frequency axis. */
+  private spectrumAt(fraction: number) {
+    const hz = MIN_HZ * Math.pow(MAX_HZ / MIN_HZ, fraction);
+    const bin = Math.round((hz / (this.analyser!.context.sampleRate / 2)) * this.freqData.length);
+    return this.scaleDb(this.freqData[Math.min(bin, this.freqData.length - 1)]);
+  }
+
+  private draw() {
+    const ctx = this.ctx;
+    if (!ctx || !this.analyser || this.canvas.width === 0) return;
+    this.analyser.getFloatFrequencyData(this.freqData);
+    this.analyser.getFloatTimeDomainData(this.timeData);
+
+    const meterWidth = Math.round(this.canvas.width * 0.04) + 4;
+    const width = this.canvas.width - meterWidth;
+    const height = this.canvas.height;
+
+    switch (this.visualStyle) {
+      case 'bars':
+        this.drawBars(ctx, width, height);
+        break;
+      case 'spectrogram':
+        this.drawSpectrogram(ctx, width, height);
+        break;
+      case 'waveform':
+        this.drawWaveform(ctx, width, height);
+        break;
+      case 'scope':
+        this.drawScope(ctx, width, height);
+        break;
+    }
+    this.drawMeters(ctx, width, meterWidth, height);
+  }
+
+  private drawBars(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    const barWidth = width / BAR_COUNT;
+    ctx.fillStyle = this.color;
+    for (let i = 0; i < BAR_COUNT; i++) {
+      const value = this.spectrumAt((i + 0.5) / BAR_COUNT);
+      const barHeight = value * height;
+      ctx.globalAlpha = 0.4 + value * 0.6;
+      ctx.fillRect(i * barWidth + 1, height - barHeight, Math.max(1, barWidth - 2), barHeight);
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private drawSpectrogram(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    ctx.drawImage(this.canvas, SCROLL_PX, 0, width - SCROLL_PX, height, 0, 0, width - SCROLL_PX, height);
+    const column = ctx.createImageData(SCROLL_PX, height);
+    for (let y = 0; y < height; y++) {
+      const [r, g, b] = heatColor(this.spectrumAt(1 - y / height));
+      for (let x = 0; x < SCROLL_PX; x++) {
+        const i = (y * SCROLL_PX + x) * 4;
+        column.data[i] = r;
+        column.data[i + 1] = g;
+        column.data[i + 2] = b;
+        column.data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(column, width - SCROLL_PX, 0);
+  }
+
+  private drawWaveform(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    let min = 0;
+    let max = 0;
+    for (const sample of this.timeData) {
+      min = Math.min(min, sample);
+      max = Math.max(max, sample);
+    }
+    ctx.drawImage(this.canvas, SCROLL_PX, 0, width - SCROLL_PX, height, 0, 0, width - SCROLL_PX, height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(width - SCROLL_PX, 0, SCROLL_PX, height);
+    const mid = height / 2;
+    ctx.fillStyle = this.color;
+    ctx.fillRect(width - SCROLL_PX, mid - max * mid, SCROLL_PX, Math.max(1, (max - min) * mid));
+  }
+
+  private drawScope(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    // start on a rising zero crossing so the trace holds still
+    let start = 0;
+    const half = this.timeData.length / 2;
+    for (let i = 1; i < half; i++) {
+      if (this.timeData[i - 1] < 0 && this.timeData[i] >= 0) {
+        start = i;
+        break;
+      }
+    }
+    const mid = height / 2;
+    ctx.strokeStyle = this.color;
+    ctx.lineWidth = devicePixelRatio * 1.5;
+    ctx.beginPath();
+    for (let x = 0; x < width; x++) {
+      const sample = this.timeData[start + Math.floor((x / width) * half)];
+      const y = mid - sample * mid;
+      if (x === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+  }
+
+  private drawMeters(ctx: CanvasRenderingContext2D, x: number, width: number, height: number) {
+    let squares = 0;
+    let peak = 0;
+    for (const sample of this.timeData) {
+      squares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    const rmsDb = 10 * Math.log10(squares / this.timeData.length);
+    const peakDb = 20 * Math.log10(peak);
+
+    const now = performance.now();
+    const elapsed = (now - this.lastFrameMs) / 1000;
+    this.lastFrameMs = now;
+    if (peakDb >= this.peakHoldDb) {
+      this.peakHoldDb = peakDb;
+      this.peakHoldMs = now;
+    } else if (now - this.peakHoldMs > PEAK_HOLD_MS) {
+      this.peakHoldDb -= PEAK_FALL_DB_PER_SECOND * elapsed;
+    }
+
+    const toY = (db: number) => height * Math.min(1, Math.max(0, db / METER_FLOOR_DB));
+    const barWidth = (width - 4) / 2;
+    ctx.fillStyle = '#111';
+    ctx.fillRect(x, 0, width, height);
+    ctx.fillStyle = '#3dffab';
+    ctx.fillRect(x + 2, toY(rmsDb), barWidth, height - toY(rmsDb));
+    ctx.fillStyle = peakDb >= 0 ? '#da2000' : '#ffdd28';
+    ctx.fillRect(x + 2 + barWidth, toY(peakDb), barWidth, height - toY(peakDb));
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(x + 2, toY(this.peakHoldDb), width - 4, Math.max(1, devicePixelRatio));
+  }
+
+  override render() {
+    return html`
+      <canvas @dblclick=${this.toggleProjector}></canvas>
+      <div id="toolbar">
+        <select .value=${this.visualStyle} @change=${this.handleStyleChange}>
+          ${Object.entries(STYLE_LABELS).map(
+            ([style, label]) => html`<option value=${style}>${label}</option>`,
+          )}
+        </select>
+        <button @click=${this.toggleProjector}>${this.projector ? 'Exit' : 'Projector'}</button>
+      </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'audio-visualizer': AudioVisualizer;
+  }
+}
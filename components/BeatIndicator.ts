@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { BEATS_PER_BAR } from '../utils/BeatTracker';
+import type { Beat, BeatTracker } from '../utils/BeatTracker';
+
+/** How long a beat dot stays lit. */
+const FLASH_MS = 120;
+/** Below this confidence the BPM is shown dimmed as a guess. */
+const CONFIDENT = 0.3;
+
+/** Four dots that flash on each beat, with the downbeat larger, and the tracked BPM. */
+@customElement('beat-indicator')
+export class BeatIndicator extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 4px;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+      pointer-events: none;
+    }
+    .dots {
+      display: flex;
+      align-items: center;
+      gap: 5px;
+    }
+    .dot {
+      width: 8px;
+      height: 8px;
+      border-radius: 50%;
+      background: #fff3;
+      transition: background 80ms;
+      &.downbeat {
+        width: 11px;
+        height: 11px;
+      }
+      &.lit {
+        background: #fff;
+      }
+      &.downbeat.lit {
+        background: #ffe600;
+      }
+    }
+    .bpm {
+      font-family: monospace;
+      &.guess {
+        opacity: 0.5;
+      }
+    }
+  `;
+
+  @property({ type: Object }) tracker: BeatTracker | null = null;
+
+  @state() private beat: Beat | null = null;
+  @state() private lit = false;
+
+  private flashTimeout: number | null = null;
+
+  private readonly handleBeat = (e: Event) => {
+    const customEvent = e as CustomEvent<Beat>;
+    this.beat = customEvent.detail;
+    this.lit = true;
+    if (this.flashTimeout) clearTimeout(this.flashTimeout);
+    this.flashTimeout = window.setTimeout(() => {
+      this.lit = false;
+    }, FLASH_MS);
+  };
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('tracker')) {
+      const previous = changedProperties.get('tracker') as BeatTracker | null | undefined;
+      previous?.removeEventListener('beat', this.handleBeat);
+      this.tracker?.addEventListener('beat', this.handleBeat);
+      this.beat = null;
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.tracker?.removeEventListener('beat', this.handleBeat);
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.tracker?.addEventListener('beat', this.handleBeat);
+  }
+
+  override render() {
+    const dots = Array.from({ length: BEATS_PER_BAR }, (_, i) => {
+      const classes = classMap({
+        dot: true,
+        downbeat: i === 0,
+        lit: this.lit && this.beat?.beatInBar === i,
+      });
+      return html`<div class=${classes}></div>`;
+    });
+    const bpmClasses = classMap({ bpm: true, guess: (this.beat?.confidence ?? 0) < CONFIDENT });
+    return html`
+      <div class="dots">${dots}</div>
+      <div class=${bpmClasses}>${this.beat ? `${this.beat.bpm.toFixed(1)} BPM` : '-- BPM'}</div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'beat-indicator': BeatIndicator;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+import './BeatIndicator';
+import './PlayPauseButton';
+import './PromptController';
+import type { BeatTracker } from '../utils/BeatTracker';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { PlaybackState, Prompt } from '../types';
+
+/** One deck of the DJ mixer: a prompt grid with its own transport, meter and cue. */
+@customElement('dj-deck')
+export class DjDeck extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 1vmin;
+      min-width: 0;
+      color: #fff;
+      -webkit-font-smoothing: antialiased;
+    }
+    header {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      font-weight: 600;
+    }
+    .label {
+      font-size: 3vmin;
+      color: var(--deck-color, #fff);
+    }
+    #grid {
+      flex: 1;
+      display: grid;
+      grid-template-columns: repeat(4, 1fr);
+      grid-auto-rows: 1fr;
+      gap: 1vmin;
+      min-height: 0;
+    }
+    prompt-controller {
+      width: 100%;
+      height: 100%;
+    }
+    footer {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 2vmin;
+    }
+    play-pause-button {
+      width: 12vmin;
+    }
+    .meter {
+      width: 1.2vmin;
+      height: 10vmin;
+      border: 1px solid #fff6;
+      border-radius: 2px;
+      display: flex;
+      align-items: flex-end;
+      overflow: hidden;
+    }
+    .meter-fill {
+      width: 100%;
+      height: 100%;
+      transform-origin: bottom;
+      background: linear-gradient(to top, #3dffab 60%, #ffdd28 85%, #da2000);
+      transition: transform 60ms linear;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      user-select: none;
+      padding: 3px 6px;
+      &.active {
+        background-color: #ffb300;
+        border-color: #ffb300;
+        color: #000;
+      }
+      &:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+    }
+  `;
+
+  @property({ type: String }) label = '';
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+  @property({ type: Object }) filteredPrompts = new Set<string>();
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+  @property({ type: String }) playbackState: PlaybackState = 'stopped';
+  @property({ type: Number }) reconnectAttempt = 0;
+  @property({ type: Number }) audioLevel = 0;
+  @property({ type: Object }) beatTracker: BeatTracker | null = null;
+  @property({ type: Boolean }) cued = false;
+  /** False until a headphone output has been picked. */
+  @property({ type: Boolean }) cueAvailable = false;
+
+  private handlePromptChanged(e: CustomEvent<Prompt>) {
+    const { promptId, text, weight } = e.detail;
+    const prompt = this.prompts.get(promptId);
+
+    if (!prompt) {
+      console.error('prompt not found', promptId);
+      return;
+    }
+
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(promptId, { ...prompt, text, weight });
+    this.prompts = newPrompts;
+
+    this.dispatchEvent(
+      new CustomEvent<Map<string, Prompt>>('prompts-changed', { detail: this.prompts }),
+    );
+  }
+
+  private playPause() {
+    this.dispatchEvent(new CustomEvent('play-pause'));
+  }
+
+  private toggleCue() {
+    this.dispatchEvent(new CustomEvent<boolean>('cue-toggle', { detail: !this.cued }));
+  }
+
+  override render() {
+    // the analyser level rarely gets past 0.5, so stretch it to fill the meter
+    const meter = styleMap({ transform: `scaleY(${Math.min(1, this.audioLevel * 2)})` });
+    return html`
+      <header>
+        <span class="label">${this.label}</span>
+        <button
+          class=${classMap({ active: this.cued })}
+          ?disabled=${!this.cueAvailable}
+          title=${this.cueAvailable ? 'Send this deck to the headphones' : 'Pick a headphone output first'}
+          @click=${this.toggleCue}>CUE</button>
+      </header>
+      <div id="grid">${this.renderPrompts()}</div>
+      <footer>
+        <play-pause-button
+          .playbackState=${this.playbackState}
+          .reconnectAttempt=${this.reconnectAttempt}
+          @click=${this.playPause}></play-pause-button>
+        <div class="meter"><div class="meter-fill" style=${meter}></div></div>
+        <beat-indicator .tracker=${this.beatTracker}></beat-indicator>
+      </footer>`;
+  }
+
+  private renderPrompts() {
+    return [...this.prompts.values()].map((prompt) => {
+      return html`<prompt-controller
+        promptId=${prompt.promptId}
+        ?filtered=${this.filteredPrompts.has(prompt.text)}
+        text=${prompt.text}
+        weight=${prompt.weight}
+        color=${prompt.color}
+        .midiDispatcher=${this.midiDispatcher}
+        .showCC=${this.showCC}
+        audioLevel=${this.audioLevel}
+        @prompt-changed=${this.handlePromptChanged}>
+      </prompt-controller>`;
+    });
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'dj-deck': DjDeck;
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import './DjDeck';
+import './MasterPanel';
+import './MidiDeviceList';
+import './MidiLearnBadge';
+import './MidiProfilePanel';
+import { DeckMixer } from '../utils/DeckMixer';
+import type { CrossfadeCurve, Deck } from '../utils/DeckMixer';
+import type { BeatTracker } from '../utils/BeatTracker';
+import type { MasterBus } from '../utils/MasterBus';
+import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiProfileStore } from '../utils/MidiProfileStore';
+import { defaultPromptMappings } from '../utils/midiMapping';
+import type { MidiDeviceChange, PlaybackState, Prompt } from '../types';
+
+interface DeckState {
+  prompts: Map<string, Prompt>;
+  filteredPrompts: Set<string>;
+  playbackState: PlaybackState;
+  reconnectAttempt: number;
+  audioLevel: number;
+  cued: boolean;
+}
+
+/** Emitted with deck events so one listener can route to the right session. */
+export interface DeckEvent<T> {
+  deck: Deck;
+  value: T;
+}
+
+const DECK_LABELS = ['A', 'B'];
+const DECK_COLORS = ['#2af6de', '#ff25f6'];
+
+const CURVE_LABELS: Record<CrossfadeCurve, string> = {
+  'linear': 'Linear',
+  'constant-power': 'Constant power',
+  'cut': 'Cut',
+};
+
+/**
+ * Two decks side by side with a crossfader between them. The crossfader is
+ * MIDI-learnable like any other control and drives the `DeckMixer` directly;
+ * deck events are re-dispatched with the deck they came from.
+ */
+@customElement('dj-mixer')
+export class DjMixer extends LitElement {
+  static override styles = css`
+    :host {
+      height: 100%;
+      display: flex;
+      flex-direction: column;
+      position: relative;
+      box-sizing: border-box;
+      padding: 5px 2vmin 2vmin;
+      gap: 1vmin;
+      background: #111;
+      color: #fff;
+      -webkit-font-smoothing: antialiased;
+    }
+    #buttons {
+      display: flex;
+      gap: 5px;
+    }
+    midi-device-list {
+      align-self: flex-start;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      user-select: none;
+      padding: 3px 6px;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+    }
+    select {
+      font: inherit;
+      padding: 5px;
+      background: #fff;
+      color: #000;
+      border-radius: 4px;
+      border: none;
+      outline: none;
+      cursor: pointer;
+    }
+    #panels {
+      position: absolute;
+      top: 40px;
+      left: 2vmin;
+      z-index: 1;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 5px;
+    }
+    #decks {
+      flex: 1;
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 4vmin;
+      min-height: 0;
+    }
+    #crossfader {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 1.5vmin;
+      font-weight: 600;
+      input[type='range'] {
+        width: min(50vw, 60vmin);
+        accent-color: #fff;
+      }
+    }
+  `;
+
+  private readonly mixer: DeckMixer;
+  private readonly midiDispatcher: MidiDispatcher;
+  private readonly profileStore = new MidiProfileStore();
+
+  /** The output chain, shown in the Master panel when set. */
+  @property({ type: Object }) masterBus: MasterBus | null = null;
+  @property({ type: Array }) beatTrackers: Array<BeatTracker | null> = [null, null];
+
+  @state() private decks: [DeckState, DeckState];
+  @state() private showMidi = false;
+  @state() private showMaster = false;
+  @state() private midiInputIds: string[] = [];
+  @state() private crossfader: number;
+  @state() private curve: CrossfadeCurve;
+  @state() private cueDevices: MediaDeviceInfo[] = [];
+  @state() private cueDeviceId: string | null = null;
+
+  constructor(mixer: DeckMixer, prompts: [Map<string, Prompt>, Map<string, Prompt>]) {
+    super();
+    this.mixer = mixer;
+    this.crossfader = mixer.crossfader;
+    this.curve = mixer.curve;
+    const createDeck = (deckPrompts: Map<string, Prompt>): DeckState => ({
+      prompts: deckPrompts,
+      filteredPrompts: new Set(),
+      playbackState: 'stopped',
+      reconnectAttempt: 0,
+      audioLevel: 0,
+      cued: false,
+    });
+    this.decks = [createDeck(prompts[0]), createDeck(prompts[1])];
+    // deck B's knobs carry on from deck A's
+    this.midiDispatcher = new MidiDispatcher(defaultPromptMappings([...prompts[0].keys(), ...prompts[1].keys()]));
+    this.midiDispatcher.addEventListener('device-changed', ((e: Event) => {
+      const customEvent = e as CustomEvent<MidiDeviceChange>;
+      this.midiInputIds = this.midiDispatcher.inputIds;
+      this.dispatchEvent(new CustomEvent<MidiDeviceChange>('midi-device-changed', { detail: customEvent.detail }));
+    }));
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    if (DeckMixer.cueSupported) {
+      this.refreshCueDevices();
+      navigator.mediaDevices.addEventListener('devicechange', this.refreshCueDevices);
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    navigator.mediaDevices?.removeEventListener('devicechange', this.refreshCueDevices);
+  }
+
+  private readonly refreshCueDevices = async () => {
+    try {
+      this.cueDevices = await this.mixer.getCueDevices();
+    } catch (e: any) {
+      this.dispatchError(e.message);
+    }
+  };
+
+  private updateDeck(deck: Deck, changes: Partial<DeckState>) {
+    const decks: [DeckState, DeckState] = [...this.decks];
+    decks[deck] = { ...decks[deck], ...changes };
+    this.decks = decks;
+  }
+
+  private dispatchError(message: string) {
+    this.dispatchEvent(new CustomEvent('error', { detail: message }));
+  }
+
+  public setPlaybackState(deck: Deck, playbackState: PlaybackState) {
+    this.updateDeck(deck, { playbackState });
+  }
+
+  public setReconnectAttempt(deck: Deck, reconnectAttempt: number) {
+    this.updateDeck(deck, { reconnectAttempt });
+  }
+
+  public setAudioLevel(deck: Deck, audioLevel: number) {
+    this.updateDeck(deck, { audioLevel });
+  }
+
+  /** Reflects weights changed elsewhere, e.g. by automation, without echoing them back. */
+  public setPrompts(deck: Deck, prompts: Map<string, Prompt>) {
+    this.updateDeck(deck, { prompts });
+  }
+
+  public addFilteredPrompt(deck: Deck, prompt: string) {
+    this.updateDeck(deck, { filteredPrompts: new Set([...this.decks[deck].filteredPrompts, prompt]) });
+  }
+
+  private async toggleShowMidi() {
+    this.showMidi = !this.showMidi;
+    if (!this.showMidi) return;
+    try {
+      this.midiInputIds = await this.midiDispatcher.getMidiAccess();
+    } catch (e: any) {
+      this.showMidi = false;
+      this.dispatchError(e.message);
+    }
+  }
+
+  private handlePromptsChanged(deck: Deck, e: CustomEvent<Map<string, Prompt>>) {
+    this.updateDeck(deck, { prompts: e.detail });
+    this.dispatchEvent(
+      new CustomEvent<DeckEvent<Map<string, Prompt>>>('prompts-changed', { detail: { deck, value: e.detail } }),
+    );
+  }
+
+  private handlePlayPause(deck: Deck) {
+    this.dispatchEvent(new CustomEvent<Deck>('play-pause', { detail: deck }));
+  }
+
+  private handleCueToggle(deck: Deck, e: CustomEvent<boolean>) {
+    this.mixer.setCue(deck, e.detail);
+    this.updateDeck(deck, { cued: e.detail });
+  }
+
+  private setCrossfader(position: number) {
+    this.mixer.setCrossfader(position);
+    this.crossfader = this.mixer.crossfader;
+  }
+
+  private handleCurveChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    this.curve = select.value as CrossfadeCurve;
+    this.mixer.setCurve(this.curve);
+  }
+
+  private async handleCueDeviceChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    const deviceId = select.value || null;
+    try {
+      await this.mixer.setCueDevice(deviceId);
+      this.cueDeviceId = deviceId;
+    } catch (e: any) {
+      this.cueDeviceId = null;
+      this.dispatchError(e.message);
+    }
+    if (this.cueDeviceId === null) {
+      for (const deck of [0, 1] as Deck[]) {
+        this.mixer.setCue(deck, false);
+        this.updateDeck(deck, { cued: false });
+      }
+    }
+  }
+
+  override render() {
+    return html`
+      <div id="buttons">
+        <button
+          @click=${this.toggleShowMidi}
+          class=${this.showMidi ? 'active' : ''}
+          >MIDI</button
+        >
+        <midi-device-list
+          .midiDispatcher=${this.midiDispatcher}
+          .inputIds=${this.midiInputIds}
+          style=${this.showMidi ? '' : 'visibility: hidden'}>
+        </midi-device-list>
+        ${DeckMixer.cueSupported ? this.renderCueDevices() : ''}
+        ${this.masterBus ? html`<button
+          @click=${() => { this.showMaster = !this.showMaster; }}
+          class=${this.showMaster ? 'active' : ''}
+          >Master</button
+        >` : ''}
+      </div>
+      <div id="panels">
+        <master-panel
+          style=${this.showMaster ? '' : 'display: none'}
+          .bus=${this.masterBus}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}>
+        </master-panel>
+        <midi-profile-panel
+          style=${this.showMidi ? '' : 'display: none'}
+          .midiDispatcher=${this.midiDispatcher}
+          .store=${this.profileStore}
+          .inputIds=${this.midiInputIds}
+          @error=${(e: CustomEvent<string>) => this.dispatchError(e.detail)}>
+        </midi-profile-panel>
+      </div>
+      <div id="decks">${this.decks.map((deck, i) => this.renderDeck(deck, i as Deck))}</div>
+      <div id="crossfader">
+        <span>A</span>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.001"
+          .value=${String(this.crossfader)}
+          @input=${(e: Event) => this.setCrossfader(Number((e.target as HTMLInputElement).value))} />
+        <span>B</span>
+        <select .value=${this.curve} @change=${this.handleCurveChange}>
+          ${Object.entries(CURVE_LABELS).map(
+            ([curve, label]) => html`<option value=${curve}>${label}</option>`,
+          )}
+        </select>
+        <midi-learn-badge
+          .midiDispatcher=${this.midiDispatcher}
+          controlId="crossfader"
+          ?visible=${this.showMidi}
+          .value=${this.crossfader * 127}
+          @cc-value=${(e: CustomEvent<number>) => this.setCrossfader(e.detail / 127)}>
+        </midi-learn-badge>
+      </div>`;
+  }
+
+  private renderCueDevices() {
+    return html`<select
+      title="Headphone output for the cue"
+      .value=${this.cueDeviceId ?? ''}
+      @change=${this.handleCueDeviceChange}>
+      <option value="">Cue off</option>
+      ${this.cueDevices.map(
+        (device, i) => html`<option value=${device.deviceId}>
+          ${device.label || `Output ${i + 1}`}
+        </option>`,
+      )}
+    </select>`;
+  }
+
+  private renderDeck(deck: DeckState, i: Deck) {
+    return html`<dj-deck
+      label=${`Deck ${DECK_LABELS[i]}`}
+      style=${`--deck-color: ${DECK_COLORS[i]}`}
+      .prompts=${deck.prompts}
+      .filteredPrompts=${deck.filteredPrompts}
+      .midiDispatcher=${this.midiDispatcher}
+      .showCC=${this.showMidi}
+      .playbackState=${deck.playbackState}
+      .reconnectAttempt=${deck.reconnectAttempt}
+      .audioLevel=${deck.audioLevel}
+      .beatTracker=${this.beatTrackers[i]}
+      ?cued=${deck.cued}
+      ?cueAvailable=${this.cueDeviceId !== null}
+      @prompts-changed=${(e: CustomEvent<Map<string, Prompt>>) => this.handlePromptsChanged(i, e)}
+      @play-pause=${() => this.handlePlayPause(i)}
+      @cue-toggle=${(e: CustomEvent<boolean>) => this.handleCueToggle(i, e)}>
+    </dj-deck>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'dj-mixer': DjMixer;
+  }
+}
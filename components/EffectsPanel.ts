@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import './MidiLearnBadge';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { rangeToCc } from '../utils/midiMapping';
+import {
+  ccToEffectsValue,
+  DEFAULT_EFFECTS_SETTINGS,
+  DELAY_DIVISIONS,
+  EFFECTS_PARAMS,
+} from '../utils/EffectsStage';
+import type { EffectsStage } from '../utils/EffectsStage';
+import type { DelayDivision, EffectsParam, EffectsSettings, IsolatorBand } from '../types';
+
+const KILLS: Record<IsolatorBand, 'lowKill' | 'midKill' | 'highKill'> = {
+  low: 'lowKill',
+  mid: 'midKill',
+  high: 'highKill',
+};
+
+/**
+ * Controls for the effects stage. Sliders and kill buttons each get their own
+ * MIDI-learnable CC; a kill follows its CC, on at 64 and above, so momentary
+ * pads work as hold-to-kill.
+ */
+@customElement('effects-panel')
+export class EffectsPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: auto 1fr 3.5em auto auto auto;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 320px;
+    }
+    label {
+      font-weight: 600;
+    }
+    .value {
+      font-family: monospace;
+      text-align: right;
+    }
+    input[type='range'] {
+      width: 100%;
+      accent-color: #fff;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1px solid #fff;
+      border-radius: 3px;
+      padding: 0 4px;
+      user-select: none;
+      &.killed {
+        background: #da2000;
+        border-color: #da2000;
+      }
+    }
+    select {
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+    }
+  `;
+
+  @property({ type: Object }) effects: EffectsStage | null = null;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+
+  @state() private settings: EffectsSettings = DEFAULT_EFFECTS_SETTINGS;
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('effects') && this.effects) {
+      this.settings = this.effects.settings;
+    }
+  }
+
+  private setSetting<K extends keyof EffectsSettings>(key: K, value: EffectsSettings[K]) {
+    this.settings = { ...this.settings, [key]: value };
+    this.effects?.setSettings(this.settings);
+  }
+
+  private toggleKill(band: IsolatorBand) {
+    this.setSetting(KILLS[band], !this.settings[KILLS[band]]);
+  }
+
+  private renderSlider(param: EffectsParam, extra: unknown = html`<span></span>`, killBadge: unknown = html`<span></span>`) {
+    const spec = EFFECTS_PARAMS[param];
+    const value = this.settings[param];
+    return html`
+      <label for=${param}>${spec.label}</label>
+      <input
+        id=${param}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        .value=${String(value)}
+        @dblclick=${() => this.setSetting(param, DEFAULT_EFFECTS_SETTINGS[param])}
+        @input=${(e: Event) => this.setSetting(param, Number((e.target as HTMLInputElement).value))} />
+      <span class="value">${value.toFixed(2)}</span>
+      ${extra}
+      <midi-learn-badge
+        .midiDispatcher=${this.midiDispatcher}
+        controlId="effects:${param}"
+        ?visible=${this.showCC}
+        .value=${rangeToCc(value, spec.min, spec.max)}
+        @cc-value=${(e: CustomEvent<number>) => this.setSetting(param, ccToEffectsValue(param, e.detail))}>
+      </midi-learn-badge>
+      ${killBadge}`;
+  }
+
+  private renderBand(band: IsolatorBand) {
+    const killed = this.settings[KILLS[band]];
+    const killButton = html`<button
+      class=${classMap({ killed })}
+      title="Kill the ${band} band"
+      @click=${() => this.toggleKill(band)}>KILL</button>`;
+    const killBadge = html`<midi-learn-badge
+      .midiDispatcher=${this.midiDispatcher}
+      controlId="effects:${KILLS[band]}"
+      ?visible=${this.showCC}
+      .value=${killed ? 127 : 0}
+      @cc-value=${(e: CustomEvent<number>) => this.setSetting(KILLS[band], e.detail >= 64)}>
+    </midi-learn-badge>`;
+    return this.renderSlider(band, killButton, killBadge);
+  }
+
+  private handleDivisionChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    this.setSetting('delayDivision', select.value as DelayDivision);
+  }
+
+  override render() {
+    const divisions = html`<select
+      title="Delay time"
+      .value=${this.settings.delayDivision}
+      @change=${this.handleDivisionChange}>
+      ${Object.keys(DELAY_DIVISIONS).map((division) => html`<option value=${division}>${division}</option>`)}
+    </select>`;
+    return html`<div class="panel">
+      ${this.renderBand('low')}
+      ${this.renderBand('mid')}
+      ${this.renderBand('high')}
+      ${this.renderSlider('filter')}
+      ${this.renderSlider('delaySend', divisions)}
+      ${this.renderSlider('delayFeedback')}
+      ${this.renderSlider('reverbSend')}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'effects-panel': EffectsPanel;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { Scale } from '@google/genai';
+
+import './MidiLearnBadge';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { rangeToCc } from '../utils/midiMapping';
+import type { GenerationConfig, GenerationConfigParam } from '../types';
+import {
+  ccToParamValue,
+  DEFAULT_GENERATION_CONFIG,
+  GENERATION_CONFIG_PARAMS,
+  SCALE_LABELS,
+} from '../utils/generationConfig';
+
+/** Params that reset the context whenever they change, so their sliders commit only when let go. */
+const COMMIT_ON_RELEASE: GenerationConfigParam[] = ['bpm'];
+
+/** Editor for the music generation config, with a MIDI-learnable CC per numeric field. */
+@customElement('generation-config-panel')
+export class GenerationConfigPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: auto 1fr 3.5em auto auto;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 320px;
+    }
+    label {
+      font-weight: 600;
+    }
+    .value {
+      font-family: monospace;
+      text-align: right;
+    }
+    input[type='range'] {
+      width: 100%;
+      accent-color: #fff;
+    }
+    input[type='range']:disabled {
+      opacity: 0.3;
+    }
+    select {
+      grid-column: 2 / 4;
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+    }
+    .status {
+      grid-column: 1 / -1;
+      font-size: 11px;
+      opacity: 0;
+      transition: opacity 0.3s;
+      &.showing {
+        color: #ffe600;
+        opacity: 1;
+      }
+    }
+  `;
+
+  @property({ type: Object }) config: GenerationConfig = DEFAULT_GENERATION_CONFIG;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+  /** Set while the session is resetting its context after a BPM or scale change. */
+  @property({ type: Boolean }) resetting = false;
+
+
+  private dispatchConfigChange() {
+    this.dispatchEvent(
+      new CustomEvent<GenerationConfig>('config-changed', { detail: this.config }),
+    );
+  }
+
+  private setParam(param: GenerationConfigParam, value: number | null) {
+    this.config = { ...this.config, [param]: value };
+    this.dispatchConfigChange();
+  }
+
+  private handleRangeInput(param: GenerationConfigParam, e: Event) {
+    const input = e.target as HTMLInputElement;
+    if (COMMIT_ON_RELEASE.includes(param)) {
+      // shown while dragging, sent on change
+      this.config = { ...this.config, [param]: Number(input.value) };
+      return;
+    }
+    this.setParam(param, Number(input.value));
+  }
+
+  private handleRangeChange(param: GenerationConfigParam, e: Event) {
+    if (!COMMIT_ON_RELEASE.includes(param)) return;
+    const input = e.target as HTMLInputElement;
+    this.setParam(param, Number(input.value));
+  }
+
+  private handleAutoChange(param: GenerationConfigParam, e: Event) {
+    const input = e.target as HTMLInputElement;
+    // start from the middle of the range when taking over from the model
+    this.setParam(param, input.checked ? null : ccToParamValue(param, 64));
+  }
+
+  private handleScaleChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    this.config = { ...this.config, scale: select.value as Scale };
+    this.dispatchConfigChange();
+  }
+
+  private renderParam(param: GenerationConfigParam) {
+    const spec = GENERATION_CONFIG_PARAMS[param];
+    const value = this.config[param];
+    const isAuto = value === null;
+    const displayValue = isAuto ? 'auto' : value.toFixed(spec.step < 1 ? 2 : 0);
+    return html`
+      <label for=${param}>${spec.label}</label>
+      <input
+        id=${param}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        .value=${String(value ?? spec.min)}
+        ?disabled=${isAuto}
+        @input=${(e: Event) => this.handleRangeInput(param, e)}
+        @change=${(e: Event) => this.handleRangeChange(param, e)} />
+      <span class="value">${displayValue}</span>
+      ${spec.optional
+        ? html`<input
+            type="checkbox"
+            title="Let the model decide"
+            .checked=${isAuto}
+            @change=${(e: Event) => this.handleAutoChange(param, e)} />`
+        : html`<span></span>`}
+      <midi-learn-badge
+        .midiDispatcher=${this.midiDispatcher}
+        controlId="config:${param}"
+        ?visible=${this.showCC}
+        .value=${rangeToCc(value ?? spec.min, spec.min, spec.max)}
+        @cc-value=${(e: CustomEvent<number>) => this.setParam(param, ccToParamValue(param, e.detail))}>
+      </midi-learn-badge>`;
+  }
+
+  override render() {
+    const params = Object.keys(GENERATION_CONFIG_PARAMS) as GenerationConfigParam[];
+    return html`<div class="panel">
+      ${params.map((param) => this.renderParam(param))}
+      <label for="scale">Scale</label>
+      <select id="scale" .value=${this.config.scale} @change=${this.handleScaleChange}>
+        ${Object.entries(SCALE_LABELS).map(
+          ([scale, label]) => html`<option value=${scale}>${label}</option>`,
+        )}
+      </select>
+      <span></span><span></span>
+      <div class=${classMap({ status: true, showing: this.resetting })}>
+        BPM/scale changed, resetting context…
+      </div>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'generation-config-panel': GenerationConfigPanel;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import './MidiLearnBadge';
+import { LOOP_LENGTHS } from '../utils/Looper';
+import type { Looper } from '../utils/Looper';
+import type { BeatTracker } from '../utils/BeatTracker';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+
+/**
+ * Buttons that loop the last 1, 2, 4 or 8 beats. Clicking the lit one releases
+ * the loop. Each length can learn a CC that holds the loop at 64 and above and
+ * releases it below, so a momentary pad loops for as long as it is held.
+ */
+@customElement('loop-controls')
+export class LoopControls extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 5px;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .label {
+      font-weight: 600;
+    }
+    .length {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 3px;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 2.4em;
+      padding: 3px 6px;
+      user-select: none;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+      &:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+    }
+  `;
+
+  @property({ type: Object }) looper: Looper | null = null;
+  /** Supplies the detected tempo and where the beats fall. */
+  @property({ type: Object }) beatTracker: BeatTracker | null = null;
+  /** The configured tempo, which wins over the detected one. */
+  @property({ type: Number }) bpm: number | null = null;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+
+  @state() private beats: number | null = null;
+
+  private readonly handleLoopChanged = (e: Event) => {
+    const customEvent = e as CustomEvent<number | null>;
+    this.beats = customEvent.detail;
+  };
+
+  private readonly handleTempoChanged = () => {
+    this.requestUpdate();
+  };
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('looper')) {
+      const previous = changedProperties.get('looper') as Looper | null | undefined;
+      previous?.removeEventListener('loop-changed', this.handleLoopChanged);
+      this.looper?.addEventListener('loop-changed', this.handleLoopChanged);
+      this.beats = this.looper?.beats ?? null;
+    }
+    if (changedProperties.has('beatTracker')) {
+      const previous = changedProperties.get('beatTracker') as BeatTracker | null | undefined;
+      previous?.removeEventListener('tempo-changed', this.handleTempoChanged);
+      this.beatTracker?.addEventListener('tempo-changed', this.handleTempoChanged);
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.looper?.removeEventListener('loop-changed', this.handleLoopChanged);
+    this.beatTracker?.removeEventListener('tempo-changed', this.handleTempoChanged);
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.looper?.addEventListener('loop-changed', this.handleLoopChanged);
+    this.beatTracker?.addEventListener('tempo-changed', this.handleTempoChanged);
+  }
+
+  private get tempo() {
+    return this.bpm ?? this.beatTracker?.bpm ?? null;
+  }
+
+  private capture(beats: number) {
+    const tempo = this.tempo;
+    if (!this.looper || tempo === null) return;
+    this.looper.capture(beats, tempo, this.beatTracker?.lastBeatTime ?? null);
+  }
+
+  private toggle(beats: number) {
+    if (this.beats === beats) {
+      this.looper?.release();
+    } else {
+      this.capture(beats);
+    }
+  }
+
+  private handleCcValue(beats: number, value: number) {
+    if (value >= 64) {
+      if (this.beats !== beats) this.capture(beats);
+    } else if (this.beats === beats) {
+      this.looper?.release();
+    }
+  }
+
+  override render() {
+    const ready = this.looper !== null && this.tempo !== null;
+    const lengths = LOOP_LENGTHS.map((beats) => html`<div class="length">
+      <button
+        class=${classMap({ active: this.beats === beats })}
+        ?disabled=${!ready}
+        title=${ready ? `Loop the last ${beats} beat${beats === 1 ? '' : 's'}` : 'Set a BPM or play until the tempo is found'}
+        @click=${() => this.toggle(beats)}>${beats}</button>
+      <midi-learn-badge
+        .midiDispatcher=${this.midiDispatcher}
+        controlId="loop:${beats}"
+        ?visible=${this.showCC}
+        .value=${this.beats === beats ? 127 : 0}
+        @cc-value=${(e: CustomEvent<number>) => this.handleCcValue(beats, e.detail)}>
+      </midi-learn-badge>
+    </div>`);
+    return html`<span class="label">LOOP</span>${lengths}`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'loop-controls': LoopControls;
+  }
+}
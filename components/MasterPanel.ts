@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+import './MidiLearnBadge';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { rangeToCc } from '../utils/midiMapping';
+import { ccToMasterValue, DEFAULT_MASTER_SETTINGS, MASTER_PARAMS } from '../utils/MasterBus';
+import type { MasterBus, MasterMeter } from '../utils/MasterBus';
+import type { MasterParam, MasterSettings } from '../types';
+
+/** Gain reduction that fills a meter. */
+const METER_RANGE_DB = 20;
+/** How long the clip light stays on after the last clip. */
+const CLIP_HOLD_MS = 1500;
+
+/** Controls for the master bus, with gain reduction meters and a clip light. */
+@customElement('master-panel')
+export class MasterPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: auto 1fr 4.5em auto;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 320px;
+    }
+    label {
+      font-weight: 600;
+    }
+    .value {
+      font-family: monospace;
+      text-align: right;
+    }
+    input[type='range'] {
+      width: 100%;
+      accent-color: #fff;
+    }
+    .meter {
+      height: 6px;
+      background: #fff2;
+      border-radius: 3px;
+      overflow: hidden;
+    }
+    .meter-fill {
+      height: 100%;
+      width: 100%;
+      background: #ffb300;
+      transform-origin: left;
+    }
+    .clip {
+      font-weight: 700;
+      padding: 0 4px;
+      border-radius: 3px;
+      border: 1px solid #fff4;
+      color: #fff4;
+      justify-self: start;
+      &.on {
+        background: #da2000;
+        border-color: #da2000;
+        color: #fff;
+      }
+    }
+  `;
+
+  @property({ type: Object }) bus: MasterBus | null = null;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) showCC = false;
+
+  @state() private settings: MasterSettings = DEFAULT_MASTER_SETTINGS;
+  @state() private meter: MasterMeter = { compressorReduction: 0, limiterReduction: 0, clipping: false };
+  @state() private clipped = false;
+
+  private clipTimeout: number | null = null;
+
+  private readonly handleMeter = (e: Event) => {
+    const customEvent = e as CustomEvent<MasterMeter>;
+    this.meter = customEvent.detail;
+    if (!this.meter.clipping) return;
+    this.clipped = true;
+    if (this.clipTimeout) clearTimeout(this.clipTimeout);
+    this.clipTimeout = window.setTimeout(() => {
+      this.clipped = false;
+    }, CLIP_HOLD_MS);
+  };
+
+  // follows settings changed elsewhere, e.g. by a MIDI-mapped action
+  private readonly handleSettingsChanged = (e: Event) => {
+    const customEvent = e as CustomEvent<MasterSettings>;
+    this.settings = customEvent.detail;
+  };
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('bus')) {
+      const previous = changedProperties.get('bus') as MasterBus | null | undefined;
+      previous?.removeEventListener('meter', this.handleMeter);
+      previous?.removeEventListener('settings-changed', this.handleSettingsChanged);
+      this.bus?.addEventListener('meter', this.handleMeter);
+      this.bus?.addEventListener('settings-changed', this.handleSettingsChanged);
+      if (this.bus) this.settings = this.bus.settings;
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.bus?.removeEventListener('meter', this.handleMeter);
+    this.bus?.removeEventListener('settings-changed', this.handleSettingsChanged);
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.bus?.addEventListener('meter', this.handleMeter);
+    this.bus?.addEventListener('settings-changed', this.handleSettingsChanged);
+  }
+
+  private setParam(param: MasterParam, value: number) {
+    this.settings = { ...this.settings, [param]: value };
+    this.bus?.setSettings(this.settings);
+  }
+
+  private renderParam(param: MasterParam) {
+    const spec = MASTER_PARAMS[param];
+    const value = this.settings[param];
+    return html`
+      <label for=${param}>${spec.label}</label>
+      <input
+        id=${param}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        .value=${String(value)}
+        @input=${(e: Event) => this.setParam(param, Number((e.target as HTMLInputElement).value))} />
+      <span class="value">${value.toFixed(spec.step < 1 ? 1 : 0)}${spec.unit}</span>
+      <midi-learn-badge
+        .midiDispatcher=${this.midiDispatcher}
+        controlId="master:${param}"
+        ?visible=${this.showCC}
+        .value=${rangeToCc(value, spec.min, spec.max)}
+        @cc-value=${(e: CustomEvent<number>) => this.setParam(param, ccToMasterValue(param, e.detail))}>
+      </midi-learn-badge>`;
+  }
+
+  private renderMeter(label: string, reduction: number) {
+    const fill = styleMap({ transform: `scaleX(${Math.min(1, reduction / METER_RANGE_DB)})` });
+    return html`
+      <label>${label}</label>
+      <div class="meter"><div class="meter-fill" style=${fill}></div></div>
+      <span class="value">-${reduction.toFixed(1)}dB</span>
+      <span></span>`;
+  }
+
+  override render() {
+    const params = Object.keys(MASTER_PARAMS) as MasterParam[];
+    return html`<div class="panel">
+      ${params.map((param) => this.renderParam(param))}
+      ${this.renderMeter('Comp GR', this.meter.compressorReduction)}
+      ${this.renderMeter('Limit GR', this.meter.limiterReduction)}
+      <label>Clip</label>
+      <span class=${classMap({ clip: true, on: this.clipped })}>CLIP</span>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'master-panel': MasterPanel;
+  }
+}
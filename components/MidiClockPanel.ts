@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+
+/**
+ * Chooses the input whose MIDI clock the set follows and the output clock is
+ * sent to. `bpm` is the configured tempo, the one clock goes out at.
+ */
+@customElement('midi-clock-panel')
+export class MidiClockPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 220px;
+    }
+    .title {
+      grid-column: 1 / -1;
+      font-weight: 600;
+    }
+    .status {
+      grid-column: 1 / -1;
+      opacity: 0.7;
+    }
+    label {
+      font-weight: 600;
+    }
+    select {
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      min-width: 0;
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Array }) inputIds: string[] = [];
+  @property({ type: Number }) bpm: number | null = null;
+
+  @state() private clockInput: string | null = null;
+  @state() private clockOutput: string | null = null;
+  @state() private clockTempo: number | null = null;
+
+  private readonly handleClockTempo = (e: Event) => {
+    const customEvent = e as CustomEvent<number>;
+    this.clockTempo = customEvent.detail;
+  };
+
+  // lists outputs plugged in or unplugged since
+  private readonly handleOutputsChanged = () => {
+    this.requestUpdate();
+  };
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('midiDispatcher')) {
+      const previous = changedProperties.get('midiDispatcher') as MidiDispatcher | null | undefined;
+      previous?.removeEventListener('clock-tempo', this.handleClockTempo);
+      previous?.removeEventListener('outputs-changed', this.handleOutputsChanged);
+      this.midiDispatcher?.addEventListener('clock-tempo', this.handleClockTempo);
+      this.midiDispatcher?.addEventListener('outputs-changed', this.handleOutputsChanged);
+      this.clockInput = this.midiDispatcher?.clockInput ?? null;
+      this.clockOutput = this.midiDispatcher?.clockOutput ?? null;
+      this.clockTempo = this.midiDispatcher?.clockTempo ?? null;
+    }
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('clock-tempo', this.handleClockTempo);
+    this.midiDispatcher?.addEventListener('outputs-changed', this.handleOutputsChanged);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('clock-tempo', this.handleClockTempo);
+    this.midiDispatcher?.removeEventListener('outputs-changed', this.handleOutputsChanged);
+  }
+
+  private handleInputChange(e: Event) {
+    const { value } = e.target as HTMLSelectElement;
+    this.clockInput = value || null;
+    this.clockTempo = null;
+    this.midiDispatcher?.setClockInput(this.clockInput);
+  }
+
+  private handleOutputChange(e: Event) {
+    const { value } = e.target as HTMLSelectElement;
+    this.clockOutput = value || null;
+    this.midiDispatcher?.setClockOutput(this.clockOutput);
+  }
+
+  private get status() {
+    if (this.clockInput) {
+      return this.clockTempo === null ? 'Waiting for clock…' : `Following at ${this.clockTempo} BPM`;
+    }
+    if (this.clockOutput) {
+      return this.bpm === null ? 'Set a BPM in Config to send clock' : `Sending ${this.bpm} BPM`;
+    }
+    return '';
+  }
+
+  override render() {
+    const outputIds = this.midiDispatcher?.outputIds ?? [];
+    const status = this.status;
+    return html`<div class="panel">
+      <span class="title">Clock</span>
+      <label for="input">Follow</label>
+      <select id="input" .value=${this.clockInput ?? ''} @change=${this.handleInputChange}>
+        <option value="">Off</option>
+        ${this.inputIds.map((id) => html`<option value=${id}>${this.midiDispatcher?.getDeviceName(id) ?? id}</option>`)}
+      </select>
+      <label for="output">Send to</label>
+      <select id="output" .value=${this.clockOutput ?? ''} @change=${this.handleOutputChange}>
+        <option value="">Off</option>
+        ${outputIds.map((id) => html`<option value=${id}>${this.midiDispatcher?.getDeviceName(id) ?? id}</option>`)}
+      </select>
+      ${status ? html`<span class="status">${status}</span>` : ''}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-clock-panel': MidiClockPanel;
+  }
+}
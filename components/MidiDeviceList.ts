@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+
+/** A checklist of MIDI inputs; every checked input is listened to. */
+@customElement('midi-device-list')
+export class MidiDeviceList extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 2px 10px;
+      padding: 5px;
+      background: #fff;
+      color: #000;
+      border-radius: 4px;
+    }
+    label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+    }
+    input {
+      margin: 0;
+      cursor: pointer;
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Array }) inputIds: string[] = [];
+
+  private handleChange(id: string, e: Event) {
+    const checkbox = e.target as HTMLInputElement;
+    this.midiDispatcher?.setInputEnabled(id, checkbox.checked);
+    this.requestUpdate();
+  }
+
+  override render() {
+    if (this.inputIds.length === 0) return html`<span>No devices found</span>`;
+    return this.inputIds.map((id) => html`<label>
+      <input
+        type="checkbox"
+        .checked=${this.midiDispatcher?.isInputEnabled(id) ?? false}
+        @change=${(e: Event) => this.handleChange(id, e)} />
+      ${this.midiDispatcher?.getDeviceName(id) ?? id}
+    </label>`);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-device-list': MidiDeviceList;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { PlayStateFeedback } from '../types';
+
+const DEFAULT_FEEDBACK: PlayStateFeedback = {
+  deviceId: null,
+  type: 'note',
+  channel: 0,
+  number: 0,
+  value: 127,
+};
+
+/**
+ * Sets up the controller light that follows play state: which note or CC to
+ * send, on which channel and device, and the value that lights it.
+ */
+@customElement('midi-feedback-panel')
+export class MidiFeedbackPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 220px;
+    }
+    .title {
+      grid-column: 1 / -1;
+      font-weight: 600;
+    }
+    label {
+      font-weight: 600;
+    }
+    select,
+    input {
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+    }
+    input {
+      width: 5em;
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Array }) inputIds: string[] = [];
+
+  @state() private feedback: PlayStateFeedback | null = null;
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('midiDispatcher')) {
+      this.feedback = this.midiDispatcher?.playStateFeedback ?? null;
+    }
+  }
+
+  private setFeedback(feedback: PlayStateFeedback | null) {
+    this.feedback = feedback;
+    this.midiDispatcher?.setPlayStateFeedback(feedback);
+  }
+
+  private setField<K extends keyof PlayStateFeedback>(key: K, value: PlayStateFeedback[K]) {
+    this.setFeedback({ ...(this.feedback ?? DEFAULT_FEEDBACK), [key]: value });
+  }
+
+  private handleTypeChange(e: Event) {
+    const { value } = e.target as HTMLSelectElement;
+    if (value === 'off') {
+      this.setFeedback(null);
+    } else {
+      this.setField('type', value as PlayStateFeedback['type']);
+    }
+  }
+
+  private handleDeviceChange(e: Event) {
+    const { value } = e.target as HTMLSelectElement;
+    this.setField('deviceId', value || null);
+  }
+
+  /** Reads a number input, clamped to a 7-bit MIDI value within `min`-`max`. */
+  private readNumber(e: Event, min: number, max: number) {
+    const value = Math.round(Number((e.target as HTMLInputElement).value));
+    return Math.min(Math.max(Number.isFinite(value) ? value : min, min), max);
+  }
+
+  override render() {
+    const feedback = this.feedback;
+    const fields = feedback ? html`
+      <label for="number">${feedback.type === 'note' ? 'Note' : 'CC'}</label>
+      <input
+        id="number"
+        type="number"
+        min="0"
+        max="127"
+        .value=${String(feedback.number)}
+        @change=${(e: Event) => this.setField('number', this.readNumber(e, 0, 127))} />
+      <label for="channel">Channel</label>
+      <input
+        id="channel"
+        type="number"
+        min="1"
+        max="16"
+        .value=${String(feedback.channel + 1)}
+        @change=${(e: Event) => this.setField('channel', this.readNumber(e, 1, 16) - 1)} />
+      <label for="value">On value</label>
+      <input
+        id="value"
+        type="number"
+        min="1"
+        max="127"
+        .value=${String(feedback.value)}
+        @change=${(e: Event) => this.setField('value', this.readNumber(e, 1, 127))} />
+      <label for="device">Device</label>
+      <select id="device" .value=${feedback.deviceId ?? ''} @change=${this.handleDeviceChange}>
+        <option value="">All</option>
+        ${this.inputIds.map((id) => html`<option value=${id}>${this.midiDispatcher?.getDeviceName(id) ?? id}</option>`)}
+      </select>` : '';
+    return html`<div class="panel">
+      <span class="title">Play light</span>
+      <label for="type">Send</label>
+      <select id="type" .value=${feedback?.type ?? 'off'} @change=${this.handleTypeChange}>
+        <option value="off">Off</option>
+        <option value="note">Note</option>
+        <option value="cc">CC</option>
+      </select>
+      ${fields}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-feedback-panel': MidiFeedbackPanel;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import './MidiMappingEditor';
+import type { MidiMappingEditor } from './MidiMappingEditor';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { describeMapping, followKnob, matchesNote, matchesProgram } from '../utils/midiMapping';
+import type { ControlValue, NoteMessage, ProgramChange } from '../types';
+
+/**
+ * The `CC:` badge for a control other than a prompt knob. Click to learn the
+ * next CC or note that arrives, along with its device and channel, as the
+ * dispatcher's mapping for `controlId`; right-click to adjust the mapping.
+ * After that, the control's values are re-dispatched as `cc-value` events on
+ * a 0-127 scale, fractional for high-res controls, after the mapping's
+ * range and curve. A relative encoder moves on from `value`, as does a knob
+ * taking over by pickup or scaling, and a pad reads as 127 while held and 0
+ * when let go. With `programs`, a program change can be learned as well, and
+ * reads as a press and release.
+ */
+@customElement('midi-learn-badge')
+export class MidiLearnBadge extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-block;
+      visibility: hidden;
+    }
+    :host([visible]) {
+      visibility: visible;
+    }
+    .badge {
+      font-family: monospace;
+      font-size: 11px;
+      border: 1px solid #fff;
+      border-radius: 3px;
+      padding: 0 4px;
+      color: #fff;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+      &.learn {
+        color: orange;
+        border-color: orange;
+      }
+      &.pickup {
+        border-style: dashed;
+        opacity: 0.7;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: String }) controlId = '';
+  @property({ type: Boolean, reflect: true }) visible = false;
+  /** Where the control is now, 0-127, for relative encoders to move on from. */
+  @property({ type: Number }) value = 0;
+  /** Whether a program change can be learned, for controls that are buttons. */
+  @property({ type: Boolean }) programs = false;
+
+  @query('midi-mapping-editor') private editor!: MidiMappingEditor;
+
+  @state() private awaitingPickup = false;
+  // where the knob was last heard from, 0-1
+  private knobPosition: number | null = null;
+
+  private readonly handleControlValue = (e: Event) => {
+    const customEvent = e as CustomEvent<ControlValue>;
+    const detail = customEvent.detail;
+    if (detail.controlId !== this.controlId) return;
+    const mapping = this.midiDispatcher?.getMapping(this.controlId) ?? null;
+    const { value, knobPosition, awaitingPickup } = followKnob(mapping, this.value / 127, detail, this.knobPosition);
+    this.knobPosition = knobPosition;
+    this.awaitingPickup = awaitingPickup;
+    if (value === null) return;
+    this.dispatchEvent(new CustomEvent<number>('cc-value', { detail: value * 127 }));
+  };
+
+  private readonly handleNote = (e: Event) => {
+    const customEvent = e as CustomEvent<NoteMessage>;
+    const message = customEvent.detail;
+    const mapping = this.midiDispatcher?.getMapping(this.controlId);
+    if (!this.learnMode && mapping && matchesNote(mapping, message)) {
+      this.dispatchEvent(new CustomEvent<number>('cc-value', { detail: message.velocity > 0 ? 127 : 0 }));
+    }
+  };
+
+  private readonly handleProgramChange = (e: Event) => {
+    const customEvent = e as CustomEvent<ProgramChange>;
+    const mapping = this.midiDispatcher?.getMapping(this.controlId);
+    if (mapping && matchesProgram(mapping, customEvent.detail)) {
+      this.dispatchEvent(new CustomEvent<number>('cc-value', { detail: 127 }));
+      this.dispatchEvent(new CustomEvent<number>('cc-value', { detail: 0 }));
+    }
+  };
+
+  // a new mapping, or learning starting or ending elsewhere, changes the badge
+  private readonly handleDispatcherChange = () => {
+    this.knobPosition = null;
+    this.awaitingPickup = false;
+    this.requestUpdate();
+  };
+
+  private get learnMode() {
+    return this.controlId !== '' && this.midiDispatcher?.learningControlId === this.controlId;
+  }
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('midiDispatcher')) {
+      const previous = changedProperties.get('midiDispatcher') as MidiDispatcher | null | undefined;
+      previous?.removeEventListener('control-value', this.handleControlValue);
+      previous?.removeEventListener('note-message', this.handleNote);
+      previous?.removeEventListener('program-change', this.handleProgramChange);
+      previous?.removeEventListener('mappings-changed', this.handleDispatcherChange);
+      previous?.removeEventListener('learn-changed', this.handleDispatcherChange);
+      this.midiDispatcher?.addEventListener('control-value', this.handleControlValue);
+      this.midiDispatcher?.addEventListener('note-message', this.handleNote);
+      this.midiDispatcher?.addEventListener('program-change', this.handleProgramChange);
+      this.midiDispatcher?.addEventListener('mappings-changed', this.handleDispatcherChange);
+      this.midiDispatcher?.addEventListener('learn-changed', this.handleDispatcherChange);
+    }
+    if (changedProperties.has('visible') && !this.visible && this.learnMode) {
+      this.midiDispatcher?.cancelLearn();
+    }
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('control-value', this.handleControlValue);
+    this.midiDispatcher?.removeEventListener('note-message', this.handleNote);
+    this.midiDispatcher?.removeEventListener('program-change', this.handleProgramChange);
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.handleDispatcherChange);
+    this.midiDispatcher?.removeEventListener('learn-changed', this.handleDispatcherChange);
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    // re-attach after a disconnect; a no-op if already listening
+    this.midiDispatcher?.addEventListener('control-value', this.handleControlValue);
+    this.midiDispatcher?.addEventListener('note-message', this.handleNote);
+    this.midiDispatcher?.addEventListener('program-change', this.handleProgramChange);
+    this.midiDispatcher?.addEventListener('mappings-changed', this.handleDispatcherChange);
+    this.midiDispatcher?.addEventListener('learn-changed', this.handleDispatcherChange);
+  }
+
+  private toggleLearnMode() {
+    if (this.learnMode) {
+      this.midiDispatcher?.cancelLearn();
+    } else {
+      this.midiDispatcher?.learn(this.controlId, { programs: this.programs });
+    }
+  }
+
+  private openEditor(e: MouseEvent) {
+    e.preventDefault();
+    this.editor.show(e.currentTarget as Element);
+  }
+
+  override render() {
+    const mapping = this.midiDispatcher?.getMapping(this.controlId) ?? null;
+    const deviceId = mapping?.deviceId;
+    const deviceName = deviceId ? this.midiDispatcher?.getDeviceName(deviceId) ?? '' : '';
+    const hint = this.awaitingPickup ? 'Waiting for pickup: turn the knob to the value' : 'Right-click to adjust';
+    return html`<span
+      class=${classMap({ badge: true, learn: this.learnMode, pickup: this.awaitingPickup })}
+      title=${deviceName ? `${deviceName}. ${hint}` : hint}
+      @click=${this.toggleLearnMode}
+      @contextmenu=${this.openEditor}>
+      ${this.learnMode ? 'Learn' : describeMapping(mapping)}
+    </span>
+    <midi-mapping-editor .midiDispatcher=${this.midiDispatcher} controlId=${this.controlId}></midi-mapping-editor>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-learn-badge': MidiLearnBadge;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { describeMapping, encodingOf, isCcMapping, isRelative, rangeOf, takeoverOf } from '../utils/midiMapping';
+import type { CcEncoding, MidiMapping, ResponseCurve, TakeoverPolicy } from '../types';
+
+const ENCODING_LABELS: Record<CcEncoding, string> = {
+  'absolute': 'Absolute',
+  'relative-twos': 'Relative (two\'s complement)',
+  'relative-offset': 'Relative (binary offset)',
+  'relative-signed': 'Relative (signed bit)',
+  '14bit': '14-bit (MSB/LSB)',
+  'nrpn': 'NRPN',
+};
+
+const TAKEOVER_LABELS: Record<TakeoverPolicy, string> = {
+  jump: 'Jump',
+  pickup: 'Pick up',
+  scale: 'Scale',
+};
+
+const CURVE_LABELS: Record<ResponseCurve, string> = {
+  'linear': 'Linear',
+  'exponential': 'Exponential',
+  's-curve': 'S-curve',
+};
+
+/**
+ * A popover for adjusting the mapping of `controlId` by hand: its encoding,
+ * for when learn guessed wrong, how the knob takes over, and the range and
+ * curve its travel covers. Opened with `show`, next to the badge that shows
+ * the mapping; clicking elsewhere closes it.
+ */
+@customElement('midi-mapping-editor')
+export class MidiMappingEditor extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      inset: auto;
+      margin: 0;
+      padding: 8px 10px;
+      color: #fff;
+      font-size: 12px;
+      background: #000d;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .form {
+      display: grid;
+      grid-template-columns: auto auto;
+      align-items: center;
+      gap: 6px;
+    }
+    .title {
+      grid-column: 1 / -1;
+      font-weight: 600;
+    }
+    select,
+    input {
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+    }
+    input[type='number'] {
+      width: 6em;
+    }
+    input[type='checkbox'] {
+      justify-self: start;
+      margin: 0;
+    }
+    .range {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: String }) controlId = '';
+  /** What the control's full range reads as in the range fields, e.g. 2 for a prompt's weight. */
+  @property({ type: Number }) maxValue = 1;
+
+  private readonly handleMappingsChanged = () => {
+    this.requestUpdate();
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.popover = 'auto';
+    this.midiDispatcher?.addEventListener('mappings-changed', this.handleMappingsChanged);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.handleMappingsChanged);
+  }
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('midiDispatcher')) {
+      const previous = changedProperties.get('midiDispatcher') as MidiDispatcher | null | undefined;
+      previous?.removeEventListener('mappings-changed', this.handleMappingsChanged);
+      this.midiDispatcher?.addEventListener('mappings-changed', this.handleMappingsChanged);
+    }
+  }
+
+  /** Opens below `anchor`, or above it if there's no room. */
+  show(anchor: Element) {
+    const rect = anchor.getBoundingClientRect();
+    this.style.left = `${rect.left}px`;
+    this.style.top = `${rect.bottom + 4}px`;
+    this.showPopover();
+    const height = this.getBoundingClientRect().height;
+    if (rect.bottom + 4 + height > window.innerHeight) {
+      this.style.top = `${Math.max(rect.top - 4 - height, 0)}px`;
+    }
+  }
+
+  private get mapping(): MidiMapping | null {
+    const mapping = this.midiDispatcher?.getMapping(this.controlId) ?? null;
+    return mapping && isCcMapping(mapping) ? mapping : null;
+  }
+
+  private setMapping(mapping: MidiMapping) {
+    this.midiDispatcher?.setMapping(this.controlId, mapping);
+  }
+
+  private handleEncodingChange(e: Event) {
+    const mapping = this.mapping;
+    if (!mapping) return;
+    const encoding = (e.target as HTMLSelectElement).value as CcEncoding;
+    this.setMapping({ ...mapping, encoding });
+  }
+
+  private handleTakeoverChange(e: Event) {
+    const mapping = this.mapping;
+    if (!mapping) return;
+    const takeover = (e.target as HTMLSelectElement).value as TakeoverPolicy;
+    this.setMapping({ ...mapping, takeover });
+  }
+
+  /** Sets one end of the range from a field in `maxValue` units, keeping it from passing the other. */
+  private handleRangeChange(end: 'min' | 'max', e: Event) {
+    const mapping = this.mapping;
+    if (!mapping) return;
+    const { min, max } = rangeOf(mapping);
+    const value = Number((e.target as HTMLInputElement).value) / this.maxValue;
+    if (!Number.isFinite(value)) return;
+    const clamped = end === 'min' ? Math.min(Math.max(value, 0), max) : Math.min(Math.max(value, min), 1);
+    this.setMapping({ ...mapping, [end]: clamped });
+  }
+
+  private handleCurveChange(e: Event) {
+    const mapping = this.mapping;
+    if (!mapping) return;
+    const curve = (e.target as HTMLSelectElement).value as ResponseCurve;
+    this.setMapping({ ...mapping, curve });
+  }
+
+  private handleInvertChange(e: Event) {
+    const mapping = this.mapping;
+    if (!mapping) return;
+    this.setMapping({ ...mapping, invert: (e.target as HTMLInputElement).checked });
+  }
+
+  private handleNumberChange(e: Event) {
+    const mapping = this.mapping;
+    if (!mapping) return;
+    const max = encodingOf(mapping) === 'nrpn' ? 16383 : encodingOf(mapping) === '14bit' ? 31 : 127;
+    const value = Math.round(Number((e.target as HTMLInputElement).value));
+    this.setMapping({ ...mapping, cc: Math.min(Math.max(Number.isFinite(value) ? value : 0, 0), max) });
+  }
+
+  override render() {
+    const mapping = this.mapping;
+    if (!mapping) {
+      const current = this.midiDispatcher?.getMapping(this.controlId) ?? null;
+      return html`<span>${current ? `${describeMapping(current)} has no settings` : 'Not mapped yet'}</span>`;
+    }
+    const encoding = encodingOf(mapping);
+    const isNrpn = encoding === 'nrpn';
+    const { min, max } = rangeOf(mapping);
+    const step = this.maxValue / 100;
+    return html`<div class="form">
+      <span class="title">${describeMapping(mapping)}</span>
+      <label for="encoding">Encoding</label>
+      <select id="encoding" .value=${encoding} @change=${this.handleEncodingChange}>
+        ${(Object.keys(ENCODING_LABELS) as CcEncoding[]).map((option) => html`<option
+          value=${option}
+          ?disabled=${(option === '14bit' && mapping.cc >= 32) || (option !== 'nrpn' && mapping.cc >= 128)}>
+          ${ENCODING_LABELS[option]}
+        </option>`)}
+      </select>
+      <label for="number">${isNrpn ? 'Parameter' : 'CC'}</label>
+      <input
+        id="number"
+        type="number"
+        min="0"
+        max=${isNrpn ? 16383 : encoding === '14bit' ? 31 : 127}
+        .value=${String(mapping.cc)}
+        @change=${this.handleNumberChange} />
+      <label for="takeover">Takeover</label>
+      <select
+        id="takeover"
+        title=${isRelative(encoding) ? 'Relative encoders move on from the value, so never need to take over' : ''}
+        ?disabled=${isRelative(encoding)}
+        .value=${takeoverOf(mapping)}
+        @change=${this.handleTakeoverChange}>
+        ${(Object.keys(TAKEOVER_LABELS) as TakeoverPolicy[]).map((option) => html`<option value=${option}>
+          ${TAKEOVER_LABELS[option]}
+        </option>`)}
+      </select>
+      <label for="min">Range</label>
+      <span class="range">
+        <input
+          id="min"
+          type="number"
+          min="0"
+          max=${max * this.maxValue}
+          step=${step}
+          .value=${String(+(min * this.maxValue).toFixed(2))}
+          @change=${(e: Event) => this.handleRangeChange('min', e)} />
+        –
+        <input
+          id="max"
+          type="number"
+          min=${min * this.maxValue}
+          max=${this.maxValue}
+          step=${step}
+          .value=${String(+(max * this.maxValue).toFixed(2))}
+          @change=${(e: Event) => this.handleRangeChange('max', e)} />
+      </span>
+      <label for="curve">Curve</label>
+      <select id="curve" .value=${mapping.curve ?? 'linear'} @change=${this.handleCurveChange}>
+        ${(Object.keys(CURVE_LABELS) as ResponseCurve[]).map((option) => html`<option value=${option}>
+          ${CURVE_LABELS[option]}
+        </option>`)}
+      </select>
+      <label for="invert">Invert</label>
+      <input id="invert" type="checkbox" .checked=${mapping.invert ?? false} @change=${this.handleInvertChange} />
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-mapping-editor': MidiMappingEditor;
+  }
+}
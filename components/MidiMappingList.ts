@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import './MidiLearnBadge';
+
+import type { ActionRegistry, AppAction } from '../utils/ActionRegistry';
+import { actionControlId } from '../utils/ActionRegistry';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { describeMapping } from '../utils/midiMapping';
+import type { Prompt } from '../types';
+
+/**
+ * Every app action with the control mapped to it, learned by clicking its
+ * badge as with a prompt's knob, then every other mapping in the set so the
+ * whole layout can be seen, and cleared, in one place. Trigger actions can be
+ * mapped to a program change as well as a CC or note.
+ */
+@customElement('midi-mapping-list')
+export class MidiMappingList extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: 1fr auto auto;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 220px;
+    }
+    .title {
+      grid-column: 1 / -1;
+      font-weight: 600;
+    }
+    .label {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      max-width: 14em;
+    }
+    .mapping {
+      font-family: monospace;
+      font-size: 11px;
+      white-space: nowrap;
+      opacity: 0.7;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1px solid #fff;
+      border-radius: 3px;
+      padding: 0 4px;
+      user-select: none;
+      &:disabled {
+        visibility: hidden;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Object }) registry: ActionRegistry | null = null;
+  /** For naming the prompts' mappings. */
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+  @property({ type: Boolean }) showCC = false;
+
+  private readonly handleChange = () => {
+    this.requestUpdate();
+  };
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('midiDispatcher')) {
+      const previous = changedProperties.get('midiDispatcher') as MidiDispatcher | null | undefined;
+      previous?.removeEventListener('mappings-changed', this.handleChange);
+      this.midiDispatcher?.addEventListener('mappings-changed', this.handleChange);
+    }
+    if (changedProperties.has('registry')) {
+      const previous = changedProperties.get('registry') as ActionRegistry | null | undefined;
+      previous?.removeEventListener('actions-changed', this.handleChange);
+      this.registry?.addEventListener('actions-changed', this.handleChange);
+    }
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('mappings-changed', this.handleChange);
+    this.registry?.addEventListener('actions-changed', this.handleChange);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.handleChange);
+    this.registry?.removeEventListener('actions-changed', this.handleChange);
+  }
+
+  private perform(action: AppAction, value: number) {
+    this.registry?.perform(action.id, value / 127);
+    // the badge moves relative encoders on from the value shown
+    if (action.kind === 'continuous') this.requestUpdate();
+  }
+
+  private unmap(controlId: string) {
+    this.midiDispatcher?.setMapping(controlId, null);
+  }
+
+  /** A prompt's text for its knob and pad, the control id for the rest, e.g. `master:volume`. */
+  private labelFor(controlId: string) {
+    const [promptId, pad] = controlId.split(':');
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) return controlId;
+    return pad === 'pad' ? `${prompt.text} (pad)` : prompt.text;
+  }
+
+  private renderAction(action: AppAction) {
+    const controlId = actionControlId(action.id);
+    const mapped = Boolean(this.midiDispatcher?.getMapping(controlId));
+    return html`<span class="label">${action.label}</span>
+      <midi-learn-badge
+        .midiDispatcher=${this.midiDispatcher}
+        controlId=${controlId}
+        ?programs=${action.kind === 'trigger'}
+        .value=${(action.value?.() ?? 0) * 127}
+        ?visible=${this.showCC}
+        @cc-value=${(e: CustomEvent<number>) => this.perform(action, e.detail)}>
+      </midi-learn-badge>
+      <button title="Unmap" ?disabled=${!mapped} @click=${() => this.unmap(controlId)}>✕</button>`;
+  }
+
+  override render() {
+    const actions = this.registry?.actions ?? [];
+    const others = Object.entries(this.midiDispatcher?.mappings ?? {})
+      .filter(([controlId]) => !actions.some((action) => actionControlId(action.id) === controlId));
+    return html`<div class="panel">
+      <span class="title">Actions</span>
+      ${actions.map((action) => this.renderAction(action))}
+      ${others.length ? html`<span class="title">Other mappings</span>` : ''}
+      ${others.map(([controlId, mapping]) => html`<span class="label" title=${controlId}>${this.labelFor(controlId)}</span>
+        <span class="mapping">${describeMapping(mapping)}</span>
+        <button title="Unmap" @click=${() => this.unmap(controlId)}>✕</button>`)}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-mapping-list': MidiMappingList;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { createProfile, parseProfile } from '../utils/MidiProfileStore';
+import type { MidiProfileStore } from '../utils/MidiProfileStore';
+import { PRESET_PROFILES } from '../utils/midiPresets';
+import type { MidiProfile } from '../types';
+
+/**
+ * Loads, saves, imports and exports MIDI mapping profiles. When new inputs
+ * are listed, loads the profile for each known controller.
+ */
+@customElement('midi-profile-panel')
+export class MidiProfilePanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 220px;
+    }
+    .title {
+      font-weight: 600;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 5px;
+    }
+    .status {
+      opacity: 0.7;
+    }
+    select,
+    input {
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      min-width: 0;
+    }
+    select {
+      flex: 1;
+    }
+    input[type='text'] {
+      flex: 1;
+    }
+    input[type='file'] {
+      display: none;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1px solid #fff;
+      border-radius: 3px;
+      padding: 0 4px;
+      user-select: none;
+      &:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Object }) store: MidiProfileStore | null = null;
+  @property({ type: Array }) inputIds: string[] = [];
+
+  @state() private saved: MidiProfile[] = [];
+  /** `preset:<name>` or `saved:<name>`. */
+  @state() private selected = '';
+  @state() private name = '';
+  @state() private deviceName = '';
+  @state() private status = '';
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('store')) {
+      this.saved = this.store?.list() ?? [];
+    }
+    if ((changedProperties.has('inputIds') || changedProperties.has('store')) && this.store && this.midiDispatcher) {
+      const loaded = this.store.autoLoad(this.midiDispatcher, this.inputIds);
+      if (loaded.length > 0) {
+        this.status = loaded.map(({ profile, deviceName }) => `Loaded ${profile.name} for ${deviceName}`).join('. ');
+      }
+    }
+  }
+
+  private get selectedProfile(): MidiProfile | null {
+    const [kind, ...rest] = this.selected.split(':');
+    const name = rest.join(':');
+    const profiles = kind === 'preset' ? PRESET_PROFILES : this.saved;
+    return profiles.find((p) => p.name === name) ?? null;
+  }
+
+  private dispatchError(message: string) {
+    this.dispatchEvent(new CustomEvent('error', { detail: message }));
+  }
+
+  private load() {
+    const profile = this.selectedProfile;
+    if (!profile) return;
+    this.midiDispatcher?.applyMappings(profile.mappings);
+    this.status = `Loaded ${profile.name}`;
+  }
+
+  private save() {
+    const name = this.name.trim();
+    if (!name || !this.store || !this.midiDispatcher) return;
+    this.store.save(createProfile(name, this.deviceName || null, this.midiDispatcher.mappings));
+    this.saved = this.store.list();
+    this.selected = `saved:${name}`;
+    this.name = '';
+    this.status = `Saved ${name}`;
+  }
+
+  private delete() {
+    const profile = this.selectedProfile;
+    if (!profile || !this.store) return;
+    this.store.delete(profile.name);
+    this.saved = this.store.list();
+    this.selected = '';
+    this.status = `Deleted ${profile.name}`;
+  }
+
+  private export() {
+    const profile = this.selectedProfile;
+    if (!profile) return;
+    const blob = new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${profile.name}.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  private async import(e: Event) {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    this.fileInput.value = '';
+    if (!file || !this.store) return;
+    try {
+      const profile = parseProfile(await file.text());
+      this.store.save(profile);
+      this.saved = this.store.list();
+      this.selected = `saved:${profile.name}`;
+      this.status = `Imported ${profile.name}`;
+    } catch (e: any) {
+      this.dispatchError(`Could not import profile: ${e.message}`);
+    }
+  }
+
+  private reset() {
+    this.midiDispatcher?.resetMappings();
+    this.status = 'Back to the default mappings';
+  }
+
+  override render() {
+    const selectedSaved = this.selected.startsWith('saved:');
+    const deviceNames = [...new Set(this.inputIds.map((id) => this.midiDispatcher?.getDeviceName(id)).filter((name) => name))];
+    return html`<div class="panel">
+      <span class="title">Mapping profiles</span>
+      <div class="row">
+        <select .value=${this.selected} @change=${(e: Event) => { this.selected = (e.target as HTMLSelectElement).value; }}>
+          <option value="">Choose a profile…</option>
+          <optgroup label="Presets">
+            ${PRESET_PROFILES.map((p) => html`<option value="preset:${p.name}">${p.name}</option>`)}
+          </optgroup>
+          ${this.saved.length > 0 ? html`<optgroup label="Saved">
+            ${this.saved.map((p) => html`<option value="saved:${p.name}">${p.name}</option>`)}
+          </optgroup>` : ''}
+        </select>
+        <button ?disabled=${!this.selected} @click=${this.load}>Load</button>
+        <button ?disabled=${!this.selected} @click=${this.export}>Export</button>
+        <button ?disabled=${!selectedSaved} @click=${this.delete}>Delete</button>
+      </div>
+      <div class="row">
+        <input
+          type="text"
+          placeholder="Profile name"
+          .value=${this.name}
+          @input=${(e: Event) => { this.name = (e.target as HTMLInputElement).value; }} />
+        <select
+          title="Load automatically when this controller connects"
+          .value=${this.deviceName}
+          @change=${(e: Event) => { this.deviceName = (e.target as HTMLSelectElement).value; }}>
+          <option value="">No auto-load</option>
+          ${deviceNames.map((name) => html`<option value=${name}>${name}</option>`)}
+        </select>
+        <button ?disabled=${!this.name.trim()} @click=${this.save}>Save</button>
+      </div>
+      <div class="row">
+        <button @click=${() => this.fileInput.click()}>Import…</button>
+        <input type="file" accept="application/json,.json" @change=${this.import} />
+        <button @click=${this.reset}>Reset to defaults</button>
+      </div>
+      ${this.status ? html`<span class="status">${this.status}</span>` : ''}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-profile-panel': MidiProfilePanel;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { NoteOutput } from '../types';
+
+/**
+ * Chooses the output and channel the gesture piano's notes and drum hits are
+ * sent to, so the camera can play an external synth, and whether the built-in
+ * synth plays along. Dispatches `internal-synth-changed` with whether it does.
+ */
+@customElement('piano-output-panel')
+export class PianoOutputPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 220px;
+    }
+    .title {
+      grid-column: 1 / -1;
+      font-weight: 600;
+    }
+    label {
+      font-weight: 600;
+    }
+    select {
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      min-width: 0;
+    }
+    input[type='checkbox'] {
+      justify-self: start;
+      margin: 0;
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Boolean }) internalSynth = true;
+
+  @state() private noteOutput: NoteOutput | null = null;
+  // kept while the output is off, so turning it back on keeps the channel
+  @state() private channel = 0;
+
+  // lists outputs plugged in or unplugged since
+  private readonly handleOutputsChanged = () => {
+    this.requestUpdate();
+  };
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('midiDispatcher')) {
+      const previous = changedProperties.get('midiDispatcher') as MidiDispatcher | null | undefined;
+      previous?.removeEventListener('outputs-changed', this.handleOutputsChanged);
+      this.midiDispatcher?.addEventListener('outputs-changed', this.handleOutputsChanged);
+      this.noteOutput = this.midiDispatcher?.noteOutput ?? null;
+      this.channel = this.noteOutput?.channel ?? this.channel;
+    }
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('outputs-changed', this.handleOutputsChanged);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('outputs-changed', this.handleOutputsChanged);
+  }
+
+  private setNoteOutput(outputId: string | null) {
+    this.noteOutput = outputId ? { outputId, channel: this.channel } : null;
+    this.midiDispatcher?.setNoteOutput(this.noteOutput);
+  }
+
+  private handleOutputChange(e: Event) {
+    const { value } = e.target as HTMLSelectElement;
+    this.setNoteOutput(value || null);
+  }
+
+  private handleChannelChange(e: Event) {
+    this.channel = Number((e.target as HTMLSelectElement).value);
+    this.setNoteOutput(this.noteOutput?.outputId ?? null);
+  }
+
+  private handleInternalSynthChange(e: Event) {
+    const { checked } = e.target as HTMLInputElement;
+    this.dispatchEvent(new CustomEvent<boolean>('internal-synth-changed', { detail: checked }));
+  }
+
+  override render() {
+    const outputIds = this.midiDispatcher?.outputIds ?? [];
+    return html`<div class="panel">
+      <span class="title">Gesture piano</span>
+      <label for="output">Send to</label>
+      <select id="output" .value=${this.noteOutput?.outputId ?? ''} @change=${this.handleOutputChange}>
+        <option value="">Off</option>
+        ${outputIds.map((id) => html`<option value=${id}>${this.midiDispatcher?.getDeviceName(id) ?? id}</option>`)}
+      </select>
+      <label for="channel">Channel</label>
+      <select id="channel" .value=${String(this.channel)} @change=${this.handleChannelChange}>
+        ${Array.from({ length: 16 }, (_, channel) => html`<option value=${channel}>${channel + 1}</option>`)}
+      </select>
+      <label for="internal">Built-in synth</label>
+      <input
+        id="internal"
+        type="checkbox"
+        .checked=${this.internalSynth}
+        @change=${this.handleInternalSynthChange} />
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'piano-output-panel': PianoOutputPanel;
+  }
+}
@@ -10,6 +10,8 @@ import type { PlaybackState } from '../types';
 export class PlayPauseButton extends LitElement {
 
   @property({ type: String }) playbackState: PlaybackState = 'stopped';
+  /** Shown inside the spinner while the session is reconnecting. */
+  @property({ type: Number }) reconnectAttempt = 0;
 
   static override styles = css`
     :host {
@@ -43,6 +45,15 @@ export class PlayPauseButton extends LitElement {
       animation: spin linear 1s infinite;
       transform-origin: center;
       transform-box: fill-box;
+      &.reconnecting {
+        stroke: #ffb300;
+      }
+    }
+    .attempt {
+      fill: #ffb300;
+      font: 600 12px sans-serif;
+      text-anchor: middle;
+      dominant-baseline: central;
     }
     @keyframes spin {
       from { transform: rotate(0deg); }
@@ -167,11 +178,19 @@ export class PlayPauseButton extends LitElement {
             l0,0c10.7,0,19.5,8.7,19.5,19.5l0,0"/>`;
   }
 
+  private renderReconnecting() {
+    return svg`<path shape-rendering="crispEdges" class="loader reconnecting" d="M70,74.2L70,74.2c-10.7,0-19.5-8.7-19.5-19.5l0,0c0-10.7,8.7-19.5,19.5-19.5
+            l0,0c10.7,0,19.5,8.7,19.5,19.5l0,0"/>
+      <text class="attempt" x="70" y="54.7">${this.reconnectAttempt || ''}</text>`;
+  }
+
   private renderIcon() {
     if (this.playbackState === 'playing') {
       return this.renderPause();
     } else if (this.playbackState === 'loading') {
       return this.renderLoading();
+    } else if (this.playbackState === 'reconnecting') {
+      return this.renderReconnecting();
     } else {
       return this.renderPlay();
     }
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { PromptBankStore } from '../utils/PromptBankStore';
+import type { Prompt, PromptBank } from '../types';
+
+/**
+ * Stores the prompt grid under a program number so a MIDI program change can
+ * bring it back. Programs are shown 1-128, as most controllers label them.
+ * Dispatches `bank-recall` with the bank when one is recalled from the list.
+ */
+@customElement('prompt-bank-panel')
+export class PromptBankPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 220px;
+    }
+    .title {
+      font-weight: 600;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 5px;
+    }
+    .bank {
+      display: grid;
+      grid-template-columns: 3em 1fr auto auto;
+      align-items: center;
+      gap: 5px;
+    }
+    .summary {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      opacity: 0.7;
+    }
+    input {
+      font: inherit;
+      width: 4em;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1px solid #fff;
+      border-radius: 3px;
+      padding: 0 4px;
+      user-select: none;
+    }
+  `;
+
+  @property({ type: Object }) store: PromptBankStore | null = null;
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+
+  @state() private banks: PromptBank[] = [];
+  @state() private program = 0;
+
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('store')) {
+      this.banks = this.store?.list() ?? [];
+    }
+  }
+
+  private handleProgramInput(e: Event) {
+    const value = Math.round(Number((e.target as HTMLInputElement).value));
+    this.program = Math.min(Math.max(Number.isFinite(value) ? value : 1, 1), 128) - 1;
+  }
+
+  private storeBank() {
+    if (!this.store) return;
+    this.store.save(this.program, [...this.prompts.values()]);
+    this.banks = this.store.list();
+  }
+
+  private deleteBank(program: number) {
+    if (!this.store) return;
+    this.store.delete(program);
+    this.banks = this.store.list();
+  }
+
+  private recall(bank: PromptBank) {
+    this.dispatchEvent(new CustomEvent<PromptBank>('bank-recall', { detail: bank }));
+  }
+
+  private renderBank(bank: PromptBank) {
+    const summary = bank.prompts
+      .filter((p) => p.weight > 0)
+      .map((p) => p.text)
+      .join(', ');
+    return html`<div class="bank">
+      <span>${bank.program + 1}</span>
+      <span class="summary" title=${summary}>${summary || 'All off'}</span>
+      <button @click=${() => this.recall(bank)}>Recall</button>
+      <button title="Delete" @click=${() => this.deleteBank(bank.program)}>✕</button>
+    </div>`;
+  }
+
+  override render() {
+    return html`<div class="panel">
+      <span class="title">Prompt banks</span>
+      <div class="row">
+        <label for="program">Program</label>
+        <input
+          id="program"
+          type="number"
+          min="1"
+          max="128"
+          .value=${String(this.program + 1)}
+          @change=${this.handleProgramInput} />
+        <button @click=${this.storeBank}>Store</button>
+      </div>
+      ${this.banks.map((bank) => this.renderBank(bank))}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'prompt-bank-panel': PromptBankPanel;
+  }
+}
@@ -3,16 +3,33 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement } from 'lit';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 
+import './MidiMappingEditor';
+import type { MidiMappingEditor } from './MidiMappingEditor';
 import './WeightKnob';
 import type { WeightKnob } from './WeightKnob';
 
 import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import {
+  describeMapping,
+  followKnob,
+  isCcMapping,
+  isNoteMapping,
+  knobPositionFor,
+  matchesNote,
+  padControlId,
+  rangeOf,
+} from '../utils/midiMapping';
+import type { AudioFrame, Prompt, ControlValue, NoteMessage, PadMode } from '../types';
 
-/** A single prompt input associated with a MIDI CC. */
+/**
+ * A single prompt input, mapped to a MIDI CC by its prompt id. Learning a note
+ * instead maps a pad, which toggles the prompt or flashes it to full weight
+ * depending on `padMode`. Right-clicking the badge adjusts the knob's mapping,
+ * including the part of the weight range it covers, which the knob draws.
+ */
 @customElement('prompt-controller')
 export class PromptController extends LitElement {
   static override styles = css`
@@ -51,6 +68,10 @@ export class PromptController extends LitElement {
       .show-cc & {
         visibility: visible;
       }
+      &.pickup {
+        border-style: dashed;
+        opacity: 0.7;
+      }
     }
     #text {
       font-weight: 500;
@@ -99,37 +120,133 @@ export class PromptController extends LitElement {
   @property({ type: String }) color = '';
   @property({ type: Boolean, reflect: true }) filtered = false;
 
-  @property({ type: Number }) cc = 0;
-  @property({ type: Number }) channel = 0; // Not currently used
-
-  @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
+  @property({ type: String }) padMode: PadMode = 'toggle';
 
   @query('weight-knob') private weightInput!: WeightKnob;
   @query('#text') private textInput!: HTMLInputElement;
+  @query('midi-mapping-editor') private mappingEditor!: MidiMappingEditor;
 
   @property({ type: Object })
   midiDispatcher: MidiDispatcher | null = null;
 
   @property({ type: Number }) audioLevel = 0;
+  @property({ type: Object }) audioFrame: AudioFrame | null = null;
+
+  /** Whether the knob has been moved but has yet to take the weight over. */
+  @state() private awaitingPickup = false;
 
   private lastValidText!: string;
+  // what the controller's knob (0-1) and pad are showing, so values aren't echoed back to them
+  private controllerValue: number | null = null;
+  private padLit: boolean | null = null;
+  // where the knob was last heard from, 0-1, to tell which way it is moving
+  private knobPosition: number | null = null;
+  // the weight a toggled-off prompt comes back at
+  private toggledOffWeight: number | null = null;
+  // the weight to return to when a flashing pad is let go
+  private flashedFromWeight: number | null = null;
+
+  private readonly handleOutputsChanged = () => {
+    this.controllerValue = null;
+    this.padLit = null;
+    this.sendFeedback();
+  };
+
+  // a new mapping means a different knob, which needs the weight sent to it
+  private readonly handleMappingsChanged = () => {
+    this.controllerValue = null;
+    this.padLit = null;
+    this.knobPosition = null;
+    this.awaitingPickup = false;
+    this.sendFeedback();
+    this.requestUpdate();
+  };
+
+  private readonly handleLearnChanged = () => {
+    this.requestUpdate();
+  };
+
+  private readonly handleControlValue = (e: Event) => {
+    const customEvent = e as CustomEvent<ControlValue>;
+    const detail = customEvent.detail;
+    if (detail.controlId !== this.promptId) return;
+    const { value, knobPosition, awaitingPickup } = followKnob(this.mapping, this.weight / 2, detail, this.knobPosition);
+    this.knobPosition = knobPosition;
+    this.awaitingPickup = awaitingPickup;
+    if (value === null) return;
+    if (detail.type === 'absolute') this.controllerValue = detail.value;
+    this.weight = value * 2;
+    this.dispatchPromptChange();
+  };
+
+  private readonly handleNote = (e: Event) => {
+    const customEvent = e as CustomEvent<NoteMessage>;
+    const message = customEvent.detail;
+    const pad = this.padMapping;
+    if (!this.learnMode && pad && matchesNote(pad, message)) {
+      this.handlePad(message.velocity > 0);
+    }
+  };
+
+  private get learnMode() {
+    return this.promptId !== '' && this.midiDispatcher?.learningControlId === this.promptId;
+  }
+
+  private get mapping() {
+    return this.midiDispatcher?.getMapping(this.promptId) ?? null;
+  }
+
+  /** Where the knob would sit for the current weight, 0-1. */
+  private get knobTarget() {
+    const mapping = this.mapping;
+    const value = Math.min(Math.max(this.weight / 2, 0), 1);
+    return mapping && isCcMapping(mapping) ? knobPositionFor(mapping, value) : value;
+  }
+
+  private get padMapping() {
+    return this.midiDispatcher?.getMapping(padControlId(this.promptId)) ?? null;
+  }
 
   override connectedCallback() {
     super.connectedCallback();
-    this.midiDispatcher?.addEventListener('cc-message', (e: Event) => {
-      const customEvent = e as CustomEvent<ControlChange>;
-      const { channel, cc, value } = customEvent.detail;
-      if (this.learnMode) {
-        this.cc = cc;
-        this.channel = channel;
-        this.learnMode = false;
-        this.dispatchPromptChange();
-      } else if (cc === this.cc) {
-        this.weight = (value / 127) * 2;
-        this.dispatchPromptChange();
+    this.midiDispatcher?.addEventListener('outputs-changed', this.handleOutputsChanged);
+    this.midiDispatcher?.addEventListener('mappings-changed', this.handleMappingsChanged);
+    this.midiDispatcher?.addEventListener('learn-changed', this.handleLearnChanged);
+    this.midiDispatcher?.addEventListener('note-message', this.handleNote);
+    this.midiDispatcher?.addEventListener('control-value', this.handleControlValue);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('outputs-changed', this.handleOutputsChanged);
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.handleMappingsChanged);
+    this.midiDispatcher?.removeEventListener('learn-changed', this.handleLearnChanged);
+    this.midiDispatcher?.removeEventListener('note-message', this.handleNote);
+    this.midiDispatcher?.removeEventListener('control-value', this.handleControlValue);
+  }
+
+  private handlePad(pressed: boolean) {
+    if (this.padMode === 'flash') {
+      if (pressed) {
+        this.flashedFromWeight ??= this.weight;
+        this.weight = 2;
+      } else if (this.flashedFromWeight !== null) {
+        this.weight = this.flashedFromWeight;
+        this.flashedFromWeight = null;
+      } else {
+        return;
       }
-    });
+    } else {
+      if (!pressed) return;
+      if (this.weight > 0) {
+        this.toggledOffWeight = this.weight;
+        this.weight = 0;
+      } else {
+        this.weight = this.toggledOffWeight ?? 1;
+      }
+    }
+    this.dispatchPromptChange();
   }
 
   override firstUpdated() {
@@ -143,8 +260,8 @@ export class PromptController extends LitElement {
   }
 
   update(changedProperties: Map<string, unknown>) {
-    if (changedProperties.has('showCC') && !this.showCC) {
-      this.learnMode = false;
+    if (changedProperties.has('showCC') && !this.showCC && this.learnMode) {
+      this.midiDispatcher?.cancelLearn();
     }
     if (changedProperties.has('text') && this.textInput) {
       this.textInput.textContent = this.text;
@@ -152,6 +269,26 @@ export class PromptController extends LitElement {
     super.update(changedProperties);
   }
 
+  override updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('weight')) this.sendFeedback();
+  }
+
+  /** Moves the controller's LED ring or fader to the current weight, and lights the pad while on. */
+  private sendFeedback() {
+    const mapping = this.mapping;
+    const value = this.knobTarget;
+    if (mapping && isCcMapping(mapping) && value !== this.controllerValue) {
+      this.controllerValue = value;
+      this.midiDispatcher?.sendValue(mapping, value);
+    }
+    const pad = this.padMapping;
+    const lit = this.weight > 0;
+    if (pad && isNoteMapping(pad) && lit !== this.padLit) {
+      this.padLit = lit;
+      this.midiDispatcher?.sendNote(pad, lit ? 127 : 0);
+    }
+  }
+
   private dispatchPromptChange() {
     this.dispatchEvent(
       new CustomEvent<Prompt>('prompt-changed', {
@@ -159,7 +296,6 @@ export class PromptController extends LitElement {
           promptId: this.promptId,
           text: this.text,
           weight: this.weight,
-          cc: this.cc,
           color: this.color,
         },
       }),
@@ -212,10 +348,29 @@ export class PromptController extends LitElement {
   }
 
   private toggleLearnMode() {
-    this.learnMode = !this.learnMode;
+    if (this.learnMode) {
+      this.midiDispatcher?.cancelLearn();
+    } else {
+      this.midiDispatcher?.learn(this.promptId, { noteControlId: padControlId(this.promptId) });
+    }
+  }
+
+  private openMappingEditor(e: MouseEvent) {
+    e.preventDefault();
+    this.mappingEditor.show(e.currentTarget as Element);
+  }
+
+  private renderMappings() {
+    const pad = this.padMapping;
+    const mappings = pad ? `${describeMapping(this.mapping)} · ${describeMapping(pad)}` : describeMapping(this.mapping);
+    if (!this.awaitingPickup || this.knobPosition === null) return mappings;
+    // point the way to turn the knob to reach the weight
+    return `${mappings} ${this.knobPosition < this.knobTarget ? '▲' : '▼'}`;
   }
 
   override render() {
+    const mapping = this.mapping;
+    const range = mapping ? rangeOf(mapping) : { min: 0, max: 1 };
     const classes = classMap({
       'prompt': true,
       'learn-mode': this.learnMode,
@@ -225,8 +380,11 @@ export class PromptController extends LitElement {
       <weight-knob
         id="weight"
         value=${this.weight}
+        rangeMin=${range.min * 2}
+        rangeMax=${range.max * 2}
         color=${this.filtered ? '#888' : this.color}
         audioLevel=${this.filtered ? 0 : this.audioLevel}
+        .audioFrame=${this.filtered ? null : this.audioFrame}
         @input=${this.updateWeight}></weight-knob>
       <span
         id="text"
@@ -234,9 +392,18 @@ export class PromptController extends LitElement {
         @focus=${this.onFocus}
         @keydown=${this.onKeyDown}
         @blur=${this.updateText}></span>
-      <div id="midi" @click=${this.toggleLearnMode}>
-        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      <div
+        id="midi"
+        class=${classMap({ pickup: this.awaitingPickup })}
+        title=${this.awaitingPickup ? 'Waiting for pickup: turn the knob to the weight' : 'Right-click to adjust'}
+        @click=${this.toggleLearnMode}
+        @contextmenu=${this.openMappingEditor}>
+        ${this.learnMode ? 'Learn' : this.renderMappings()}
       </div>
+      <midi-mapping-editor
+        .midiDispatcher=${this.midiDispatcher}
+        controlId=${this.promptId}
+        maxValue="2"></midi-mapping-editor>
     </div>`;
   }
 }
@@ -10,8 +10,52 @@ import { throttle } from '../utils/throttle';
 
 import './PromptController';
 import './PlayPauseButton';
-import type { PlaybackState, Prompt } from '../types';
+import './GenerationConfigPanel';
+import './MasterPanel';
+import './EffectsPanel';
+import './BeatIndicator';
+import './LoopControls';
+import './MidiClockPanel';
+import './MidiDeviceList';
+import './MidiFeedbackPanel';
+import './MidiMappingList';
+import './MidiProfilePanel';
+import './PianoOutputPanel';
+import './PromptBankPanel';
+import './RampPanel';
+import type {
+  AudioFrame,
+  ClockTransport,
+  GenerationConfig,
+  MidiDeviceChange,
+  PadMode,
+  PitchBend,
+  PlaybackState,
+  ProgramChange,
+  Prompt,
+  PromptBank,
+  PromptRamp,
+} from '../types';
+import { ActionRegistry } from '../utils/ActionRegistry';
 import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiProfileStore } from '../utils/MidiProfileStore';
+import { PromptBankStore } from '../utils/PromptBankStore';
+import { defaultPromptMappings, rangeToCc } from '../utils/midiMapping';
+import { ccToMasterValue, MASTER_PARAMS } from '../utils/MasterBus';
+import type { MasterBus } from '../utils/MasterBus';
+import type { EffectsStage } from '../utils/EffectsStage';
+import type { BeatTracker } from '../utils/BeatTracker';
+import type { Looper } from '../utils/Looper';
+import { DEFAULT_GENERATION_CONFIG, GENERATION_CONFIG_PARAMS } from '../utils/generationConfig';
+
+/** How many prompt banks, from program 1, get an action to recall them. */
+const ACTION_BANKS = 8;
+/** How fast thumb and index close, in widths of the view per second, for a pinch to play at full velocity. */
+const FULL_VELOCITY_PINCH_SPEED = 1;
+/** The softest a pinch plays, however slowly it closes. */
+const MIN_PINCH_VELOCITY = 20;
+/** General MIDI drum notes for the drum kit's hits. */
+const DRUM_NOTES = { thumb: 36, index: 38, middle: 38, ring: 42, pinky: 42 } as const;
 
 /** The grid of prompt inputs. */
 @customElement('prompt-dj-midi')
@@ -88,6 +132,24 @@ export class PromptDjMidi extends LitElement {
       position: relative;
       width: 15vmin;
     }
+    #transport {
+      position: relative;
+      display: flex;
+      justify-content: center;
+    }
+    beat-indicator {
+      position: absolute;
+      left: 100%;
+      top: 50%;
+      transform: translateY(-50%);
+    }
+    loop-controls {
+      position: absolute;
+      right: 100%;
+      top: 50%;
+      transform: translateY(-50%);
+      margin-right: 2vmin;
+    }
     #buttons {
       position: absolute;
       top: 0;
@@ -112,6 +174,19 @@ export class PromptDjMidi extends LitElement {
         color: #000;
       }
     }
+    #panels {
+      position: absolute;
+      top: 40px;
+      left: 5px;
+      max-height: calc(100% - 45px);
+      display: flex;
+      flex-flow: column wrap;
+      align-content: flex-start;
+      gap: 5px;
+    }
+    midi-device-list {
+      align-self: flex-start;
+    }
     select {
       font: inherit;
       padding: 5px;
@@ -172,12 +247,34 @@ export class PromptDjMidi extends LitElement {
 
   private prompts: Map<string, Prompt>;
   private midiDispatcher: MidiDispatcher;
+  private readonly profileStore = new MidiProfileStore();
+  private readonly bankStore = new PromptBankStore();
+  private readonly actionRegistry = new ActionRegistry();
+  @state() private padMode: PadMode = 'toggle';
+  // the prompt last touched, which pitch bend pushes when no hand has hold of one
+  private focusedPromptId: string | null = null;
+  // the prompt being bent and the weight it springs back to
+  private bend: { promptId: string; weight: number } | null = null;
 
   @property({ type: Boolean }) private showMidi = false;
+  @state() private showConfig = false;
+  @state() private showMaster = false;
+  @state() private showEffects = false;
+  @state() private showRamp = false;
+  /** The ramp the Ramp panel starts, and the Start ramp action. */
+  @state() private ramp: PromptRamp;
+  /** The prompts being ramped by automation, to show on the Ramp panel. */
+  @property({ type: Array }) public rampingPromptIds: string[] = [];
+  @state() private generationConfig: GenerationConfig = DEFAULT_GENERATION_CONFIG;
+  @state() private contextResetting = false;
+  private contextResetTimeout: number | null = null;
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
+  @property({ type: Number }) public reconnectAttempt = 0;
   @state() public audioLevel = 0;
+  @state() public audioFrame: AudioFrame | null = null;
+  // jumps to 1 on each onset and decays, so a one-tick onset stays visible
+  private onsetPulse = 0;
   @state() private midiInputIds: string[] = [];
-  @state() private activeMidiInputId: string | null = null;
   @state() private selectedPromptId: string | null = null;
   @state() private activePromptId: string | null = null;
 
@@ -209,6 +306,17 @@ export class PromptDjMidi extends LitElement {
     { name: 'Drums', key: 'drums' },
   ];
   @state() private selectedInstrument = 0;
+  /** Shared context and mix input for the synth, so it can be recorded with the session. */
+  public audioContext: AudioContext | null = null;
+  public synthDestination: AudioNode | null = null;
+  /** The output chain, shown in the Master panel when set. */
+  @property({ type: Object }) public masterBus: MasterBus | null = null;
+  /** The stream's effects, shown in the FX panel when set. */
+  @property({ type: Object }) public effects: EffectsStage | null = null;
+  /** Drives the beat indicator beside the play button when set. */
+  @property({ type: Object }) public beatTracker: BeatTracker | null = null;
+  /** Shows the loop buttons beside the play button when set. */
+  @property({ type: Object }) public looper: Looper | null = null;
   private audioCtx: AudioContext | null = null;
   private instrumentNodes: any = null; // built lazily
 
@@ -216,6 +324,16 @@ export class PromptDjMidi extends LitElement {
   private pianoKeys: Array<{x:number;y:number;w:number;h:number; note:number}> = [];
   // Active key index when pinching over the piano banner
   private pinchActiveKeyIndex: number | null = null;
+  // how fast the fingers were last closing, widths of the view per second, easing off between frames
+  private pinchClosingSpeed = 0;
+  private lastPinchDist: number | null = null;
+  private lastPinchTs: number | null = null;
+  // MIDI velocity of the current pinch, from how fast it closed
+  private pinchVelocity = 100;
+  // the note sent out for each sounding voice, to send its note-off
+  private sentNotes: Record<string, number> = {};
+  /** Whether the gesture piano plays the built-in synth, as well as any MIDI output. */
+  @state() private internalSynth = true;
   private activeVoices: Record<string, {o: OscillatorNode; g: GainNode; filter?: BiquadFilterNode}> = {};
 
   @property({ type: Object })
@@ -226,11 +344,154 @@ export class PromptDjMidi extends LitElement {
   ) {
     super();
     this.prompts = initialPrompts;
-    this.midiDispatcher = new MidiDispatcher();
+    this.ramp = { promptId: [...initialPrompts.keys()][0], to: 1, duration: 8, unit: 'bars' };
+    this.midiDispatcher = new MidiDispatcher(defaultPromptMappings([...initialPrompts.keys()]));
+    this.midiDispatcher.addEventListener('program-change', ((e: Event) => {
+      const customEvent = e as CustomEvent<ProgramChange>;
+      // a program mapped to an action runs that instead
+      if (this.midiDispatcher.isProgramMapped(customEvent.detail)) return;
+      const bank = this.bankStore.get(customEvent.detail.program);
+      if (bank) this.recallBank(bank);
+    }));
+    this.midiDispatcher.addEventListener('pitch-bend', ((e: Event) => {
+      const customEvent = e as CustomEvent<PitchBend>;
+      this.handlePitchBend(customEvent.detail.value);
+    }));
+    this.midiDispatcher.addEventListener('device-changed', ((e: Event) => {
+      const customEvent = e as CustomEvent<MidiDeviceChange>;
+      this.midiInputIds = this.midiDispatcher.inputIds;
+      this.dispatchEvent(new CustomEvent<MidiDeviceChange>('midi-device-changed', { detail: customEvent.detail }));
+    }));
+    this.midiDispatcher.addEventListener('clock-tempo', ((e: Event) => {
+      const customEvent = e as CustomEvent<number>;
+      this.followClockTempo(customEvent.detail);
+    }));
+    this.midiDispatcher.addEventListener('clock-transport', ((e: Event) => {
+      const customEvent = e as CustomEvent<ClockTransport>;
+      this.followClockTransport(customEvent.detail);
+    }));
+    this.registerActions();
+  }
+
+  /** What the action list offers to map, in the order it lists them. */
+  private registerActions() {
+    const volume = MASTER_PARAMS.volume;
+    this.actionRegistry.register(
+      { id: 'play-pause', label: 'Play/pause', kind: 'trigger', run: () => this.playPause() },
+      { id: 'stop', label: 'Stop', kind: 'trigger', run: () => this.dispatchEvent(new CustomEvent('stop')) },
+      { id: 'next-instrument', label: 'Next instrument', kind: 'trigger', run: () => this.stepInstrument(1) },
+      { id: 'previous-instrument', label: 'Previous instrument', kind: 'trigger', run: () => this.stepInstrument(-1) },
+      ...Array.from({ length: ACTION_BANKS }, (_, program) => ({
+        id: `recall-bank-${program + 1}`,
+        label: `Recall bank ${program + 1}`,
+        kind: 'trigger' as const,
+        run: () => {
+          const bank = this.bankStore.get(program);
+          if (bank) this.recallBank(bank);
+        },
+      })),
+      { id: 'start-ramp', label: 'Start ramp', kind: 'trigger', run: () => this.startRamp() },
+      { id: 'panic', label: 'Panic', kind: 'trigger', run: () => this.panic() },
+      {
+        id: 'master-volume',
+        label: 'Master volume',
+        kind: 'continuous',
+        value: () => rangeToCc(this.masterBus?.settings.volume ?? 0, volume.min, volume.max) / 127,
+        run: (value) => {
+          if (!this.masterBus) return;
+          this.masterBus.setSettings({ ...this.masterBus.settings, volume: ccToMasterValue('volume', value * 127) });
+        },
+      },
+      { id: 'toggle-midi', label: 'Show MIDI', kind: 'trigger', run: () => this.toggleShowMidi() },
+      { id: 'toggle-config', label: 'Show Config', kind: 'trigger', run: () => this.toggleShowConfig() },
+      { id: 'toggle-master', label: 'Show Master', kind: 'trigger', run: () => this.toggleShowMaster() },
+      { id: 'toggle-effects', label: 'Show FX', kind: 'trigger', run: () => this.toggleShowEffects() },
+      { id: 'toggle-ramp', label: 'Show Ramp', kind: 'trigger', run: () => this.toggleShowRamp() },
+    );
+  }
+
+  /** Asks for the Ramp panel's ramp to run, from the prompt's weight now. */
+  private startRamp() {
+    this.dispatchEvent(new CustomEvent<PromptRamp>('prompt-ramp', { detail: this.ramp }));
+  }
+
+  private cancelRamp() {
+    this.dispatchEvent(new CustomEvent<string>('prompt-ramp-cancel', { detail: this.ramp.promptId }));
+  }
+
+  private stepInstrument(step: number) {
+    const count = this.instruments.length;
+    this.selectedInstrument = (this.selectedInstrument + step + count) % count;
+  }
+
+  /** Silences the gesture piano's voices, and any notes left hanging on MIDI outputs. */
+  private panic() {
+    this.handlePianoPinch(false, null);
+    for (const id of Object.keys({ ...this.activeVoices, ...this.sentNotes })) this.noteOff(id);
+    this.midiDispatcher.allNotesOff();
+  }
+
+  // master volume moved from the Master panel
+  private readonly handleMasterSettingsChanged = () => {
+    this.actionRegistry.notifyValuesChanged();
+  };
+
+  /** Takes the tempo of the gear whose clock is followed as the generation BPM. */
+  private followClockTempo(bpm: number) {
+    const { min, max } = GENERATION_CONFIG_PARAMS.bpm;
+    const clamped = Math.min(Math.max(bpm, min), max);
+    if (clamped === this.generationConfig.bpm) return;
+    this.generationConfig = { ...this.generationConfig, bpm: clamped };
+    this.dispatchEvent(
+      new CustomEvent('config-changed', { detail: this.generationConfig }),
+    );
+  }
+
+  /** Whether the music is on, counting the gaps while it buffers or reconnects. */
+  private get running() {
+    return this.playbackState === 'playing' ||
+      this.playbackState === 'loading' ||
+      this.playbackState === 'reconnecting';
+  }
+
+  /** Plays and pauses along with the gear whose clock is followed. */
+  private followClockTransport(transport: ClockTransport) {
+    // a session being reconnected is still running: a Start must not stop it
+    if (transport === 'stop' ? this.running : !this.running) this.playPause();
+  }
+
+  /** Lays a bank's prompts over the grid in order, keeping the prompt ids and so their mappings. */
+  private recallBank(bank: PromptBank) {
+    const ids = [...this.prompts.keys()];
+    const newPrompts = new Map(this.prompts);
+    bank.prompts.slice(0, ids.length).forEach((stored, i) => {
+      newPrompts.set(ids[i], { ...newPrompts.get(ids[i])!, ...stored });
+    });
+    this.bend = null;
+    this.prompts = newPrompts;
+    this.dispatchEvent(new CustomEvent('prompts-changed', { detail: this.prompts }));
+  }
+
+  /** Pushes the focused prompt up or down while the wheel is held off centre. */
+  private handlePitchBend(value: number) {
+    if (value === 0) {
+      if (this.bend) this.setPromptWeight(this.bend.promptId, this.bend.weight);
+      this.bend = null;
+      return;
+    }
+    if (!this.bend) {
+      const promptId = this.activePromptId ?? this.selectedPromptId ?? this.focusedPromptId;
+      const prompt = promptId ? this.prompts.get(promptId) : null;
+      if (!promptId || !prompt) return;
+      this.bend = { promptId, weight: prompt.weight };
+    }
+    const weight = Math.min(Math.max(this.bend.weight + value * 2, 0), 2);
+    this.setPromptWeight(this.bend.promptId, weight);
   }
 
   private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const { promptId, text, weight, cc } = e.detail;
+    const { promptId, text, weight } = e.detail;
+    this.focusedPromptId = promptId;
     const prompt = this.prompts.get(promptId);
 
     if (!prompt) {
@@ -240,7 +501,6 @@ export class PromptDjMidi extends LitElement {
 
     prompt.text = text;
     prompt.weight = weight;
-    prompt.cc = cc;
 
     const newPrompts = new Map(this.prompts);
     newPrompts.set(promptId, prompt);
@@ -260,16 +520,21 @@ export class PromptDjMidi extends LitElement {
 
       const MAX_WEIGHT = 0.5;
       const MAX_ALPHA = 0.6;
+      // bass widens the gradients, highs and onsets brighten them
+      const low = this.audioFrame?.bands.low ?? 0;
+      const high = this.audioFrame?.bands.high ?? 0;
+      const sizeBoost = 1 + low * 0.5;
+      const alphaBoost = 1 + high * 0.5 + this.onsetPulse * 0.3;
 
       const bg: string[] = [];
 
       [...this.prompts.values()].forEach((p, i) => {
-        const alphaPct = clamp01(p.weight / MAX_WEIGHT) * MAX_ALPHA;
+        const alphaPct = clamp01(clamp01(p.weight / MAX_WEIGHT) * MAX_ALPHA * alphaBoost);
         const alpha = Math.round(alphaPct * 0xff)
           .toString(16)
           .padStart(2, '0');
 
-        const stop = p.weight / 2;
+        const stop = (p.weight / 2) * sizeBoost;
         const x = (i % 4) / 3;
         const y = Math.floor(i / 4) / 3;
         const s = `radial-gradient(circle at ${x * 100}% ${y * 100}%, ${p.color}${alpha} 0px, ${p.color}00 ${stop * 100}%)`;
@@ -282,6 +547,24 @@ export class PromptDjMidi extends LitElement {
     30, // don't re-render more than once every XXms
   );
 
+  override willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('audioFrame')) {
+      this.onsetPulse = this.audioFrame?.onset ? 1 : this.onsetPulse * 0.85;
+    }
+    if (changedProperties.has('playbackState')) {
+      this.midiDispatcher.setPlaying(this.playbackState === 'playing');
+      this.midiDispatcher.setTransportRunning(this.running);
+    }
+    if (changedProperties.has('generationConfig')) {
+      this.midiDispatcher.setClockTempo(this.generationConfig.bpm);
+    }
+    if (changedProperties.has('masterBus')) {
+      const previous = changedProperties.get('masterBus') as MasterBus | null | undefined;
+      previous?.removeEventListener('settings-changed', this.handleMasterSettingsChanged);
+      this.masterBus?.addEventListener('settings-changed', this.handleMasterSettingsChanged);
+    }
+  }
+
   private toggleShowMidi() {
     return this.setShowMidi(!this.showMidi);
   }
@@ -292,24 +575,54 @@ export class PromptDjMidi extends LitElement {
     try {
       const inputIds = await this.midiDispatcher.getMidiAccess();
       this.midiInputIds = inputIds;
-      this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
     } catch (e) {
       this.showMidi = false;
       this.dispatchEvent(new CustomEvent('error', {detail: e.message}));
     }
   }
 
-  private handleMidiInputChange(event: Event) {
-    const selectElement = event.target as HTMLSelectElement;
-    const newMidiId = selectElement.value;
-    this.activeMidiInputId = newMidiId;
-    this.midiDispatcher.activeMidiInputId = newMidiId;
-  }
-
   private playPause() {
     this.dispatchEvent(new CustomEvent('play-pause'));
   }
 
+  private toggleShowConfig() {
+    this.showConfig = !this.showConfig;
+  }
+
+  private toggleShowMaster() {
+    this.showMaster = !this.showMaster;
+  }
+
+  private toggleShowEffects() {
+    this.showEffects = !this.showEffects;
+  }
+
+  private toggleShowRamp() {
+    this.showRamp = !this.showRamp;
+  }
+
+  private handleConfigChanged(e: CustomEvent<GenerationConfig>) {
+    this.generationConfig = e.detail;
+    this.dispatchEvent(
+      new CustomEvent('config-changed', { detail: this.generationConfig }),
+    );
+  }
+
+  /** Briefly flags the config panel after the session reset its context. */
+  public showContextReset() {
+    this.contextResetting = true;
+    if (this.contextResetTimeout) clearTimeout(this.contextResetTimeout);
+    this.contextResetTimeout = window.setTimeout(() => {
+      this.contextResetting = false;
+    }, 2000);
+  }
+
+  /** Reflects weights changed elsewhere, e.g. by automation, without echoing them back. */
+  public setPrompts(prompts: Map<string, Prompt>) {
+    this.prompts = prompts;
+    this.requestUpdate();
+  }
+
   public addFilteredPrompt(prompt: string) {
     this.filteredPrompts = new Set([...this.filteredPrompts, prompt]);
   }
@@ -330,19 +643,107 @@ export class PromptDjMidi extends LitElement {
           class=${this.showMidi ? 'active' : ''}
           >MIDI</button
         >
+        <midi-device-list
+          .midiDispatcher=${this.midiDispatcher}
+          .inputIds=${this.midiInputIds}
+          style=${this.showMidi ? '' : 'visibility: hidden'}>
+        </midi-device-list>
         <select
-          @change=${this.handleMidiInputChange}
-          .value=${this.activeMidiInputId || ''}
+          title="What pads mapped to prompts do"
+          .value=${this.padMode}
+          @change=${(e: Event) => { this.padMode = (e.target as HTMLSelectElement).value as PadMode; }}
           style=${this.showMidi ? '' : 'visibility: hidden'}>
-          ${this.midiInputIds.length > 0
-        ? this.midiInputIds.map(
-          (id) =>
-            html`<option value=${id}>
-                    ${this.midiDispatcher.getDeviceName(id)}
-                  </option>`,
-        )
-        : html`<option value="">No devices found</option>`}
+          <option value="toggle">Pads toggle</option>
+          <option value="flash">Pads flash</option>
         </select>
+        <button
+          @click=${this.toggleShowConfig}
+          class=${this.showConfig ? 'active' : ''}
+          >Config</button
+        >
+        ${this.masterBus ? html`<button
+          @click=${this.toggleShowMaster}
+          class=${this.showMaster ? 'active' : ''}
+          >Master</button
+        >` : ''}
+        ${this.effects ? html`<button
+          @click=${this.toggleShowEffects}
+          class=${this.showEffects ? 'active' : ''}
+          >FX</button
+        >` : ''}
+        <button
+          @click=${this.toggleShowRamp}
+          class=${this.showRamp ? 'active' : ''}
+          >Ramp</button
+        >
+      </div>
+      <div id="panels">
+        <generation-config-panel
+          style=${this.showConfig ? '' : 'display: none'}
+          .config=${this.generationConfig}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}
+          ?resetting=${this.contextResetting}
+          @config-changed=${this.handleConfigChanged}>
+        </generation-config-panel>
+        <master-panel
+          style=${this.showMaster ? '' : 'display: none'}
+          .bus=${this.masterBus}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}>
+        </master-panel>
+        <effects-panel
+          style=${this.showEffects ? '' : 'display: none'}
+          .effects=${this.effects}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}>
+        </effects-panel>
+        <ramp-panel
+          style=${this.showRamp ? '' : 'display: none'}
+          .prompts=${this.prompts}
+          .ramp=${this.ramp}
+          .rampingPromptIds=${this.rampingPromptIds}
+          @ramp-changed=${(e: CustomEvent<PromptRamp>) => { this.ramp = e.detail; }}
+          @ramp-start=${this.startRamp}
+          @ramp-cancel=${this.cancelRamp}>
+        </ramp-panel>
+        <midi-profile-panel
+          style=${this.showMidi ? '' : 'display: none'}
+          .midiDispatcher=${this.midiDispatcher}
+          .store=${this.profileStore}
+          .inputIds=${this.midiInputIds}
+          @error=${(e: CustomEvent<string>) => this.dispatchEvent(new CustomEvent('error', { detail: e.detail }))}>
+        </midi-profile-panel>
+        <midi-feedback-panel
+          style=${this.showMidi ? '' : 'display: none'}
+          .midiDispatcher=${this.midiDispatcher}
+          .inputIds=${this.midiInputIds}>
+        </midi-feedback-panel>
+        <midi-clock-panel
+          style=${this.showMidi ? '' : 'display: none'}
+          .midiDispatcher=${this.midiDispatcher}
+          .inputIds=${this.midiInputIds}
+          .bpm=${this.generationConfig.bpm}>
+        </midi-clock-panel>
+        <piano-output-panel
+          style=${this.showMidi ? '' : 'display: none'}
+          .midiDispatcher=${this.midiDispatcher}
+          .internalSynth=${this.internalSynth}
+          @internal-synth-changed=${(e: CustomEvent<boolean>) => { this.internalSynth = e.detail; }}>
+        </piano-output-panel>
+        <prompt-bank-panel
+          style=${this.showMidi ? '' : 'display: none'}
+          .store=${this.bankStore}
+          .prompts=${this.prompts}
+          @bank-recall=${(e: CustomEvent<PromptBank>) => this.recallBank(e.detail)}>
+        </prompt-bank-panel>
+        <midi-mapping-list
+          style=${this.showMidi ? '' : 'display: none'}
+          .midiDispatcher=${this.midiDispatcher}
+          .registry=${this.actionRegistry}
+          .prompts=${this.prompts}
+          .showCC=${this.showMidi}>
+        </midi-mapping-list>
       </div>
       <div id="instrument-panel">
         ${this.instruments.map((ins, i) => html`
@@ -355,7 +756,20 @@ export class PromptDjMidi extends LitElement {
       <div id="bottom-panel">
         <div id="grid">${this.renderPrompts()}</div>
       </div>
-      <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>`;
+      <div id="transport">
+        ${this.looper ? html`<loop-controls
+          .looper=${this.looper}
+          .beatTracker=${this.beatTracker}
+          .bpm=${this.generationConfig.bpm}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}>
+        </loop-controls>` : ''}
+        <play-pause-button
+          .playbackState=${this.playbackState}
+          .reconnectAttempt=${this.reconnectAttempt}
+          @click=${this.playPause}></play-pause-button>
+        <beat-indicator .tracker=${this.beatTracker}></beat-indicator>
+      </div>`;
   }
 
   private renderPrompts() {
@@ -363,13 +777,14 @@ export class PromptDjMidi extends LitElement {
       return html`<prompt-controller
         promptId=${prompt.promptId}
         ?filtered=${this.filteredPrompts.has(prompt.text)}
-        cc=${prompt.cc}
         text=${prompt.text}
         weight=${prompt.weight}
         color=${prompt.color}
         .midiDispatcher=${this.midiDispatcher}
         .showCC=${this.showMidi}
+        .padMode=${this.padMode}
         audioLevel=${this.audioLevel}
+        .audioFrame=${this.audioFrame}
         @prompt-changed=${this.handlePromptChanged}>
       </prompt-controller>`;
     });
@@ -472,6 +887,7 @@ export class PromptDjMidi extends LitElement {
       this.drawSelectionOverlay(ctx);
       // Ensure any sustained piano note is released if tracking drops
       this.handlePianoPinch(false, null);
+      this.lastPinchDist = null;
       this.resetTrackingIfInactive();
       return;
     }
@@ -505,6 +921,13 @@ export class PromptDjMidi extends LitElement {
 
     const nowTs = performance.now();
     const HOLD_MS = 450;
+
+    if (this.lastPinchDist !== null && this.lastPinchTs !== null && nowTs > this.lastPinchTs) {
+      const speed = (this.lastPinchDist - pinchDist) / hostRect.width / ((nowTs - this.lastPinchTs) / 1000);
+      this.pinchClosingSpeed = Math.max(speed, this.pinchClosingSpeed * 0.5);
+    }
+    this.lastPinchDist = pinchDist;
+    this.lastPinchTs = nowTs;
     const ANGLE_VALUE_PER_RAD = 0.5; // change in value per radian rotated
 
     // Determine hand orientation angle from wrist->index MCP vector
@@ -519,6 +942,8 @@ export class PromptDjMidi extends LitElement {
       if (!this.pinchDown) {
         // pinch just started
         this.pinchStartTs = nowTs;
+        const loudness = Math.min(Math.max(this.pinchClosingSpeed / FULL_VELOCITY_PINCH_SPEED, 0), 1);
+        this.pinchVelocity = Math.round(MIN_PINCH_VELOCITY + loudness * (127 - MIN_PINCH_VELOCITY));
         // If pinching the play/pause button, toggle and skip other selections
         const pp = this.renderRoot.querySelector('play-pause-button') as HTMLElement | null;
         if (pp) {
@@ -709,10 +1134,22 @@ export class PromptDjMidi extends LitElement {
   }
 
   private noteOn(id: string, midiNote: number) {
-    this.ensureSynth();
-    if (!this.audioCtx) return;
     const insKey = this.instruments[this.selectedInstrument]?.key || 'piano';
     const noteAdj = insKey === 'bass' ? midiNote - 12 : midiNote;
+    if (insKey === 'drums') {
+      // Drums: quick one-shot based on key position
+      const finger = (['thumb','index','middle','ring','pinky'] as const)[Math.floor(Math.random()*5)];
+      this.midiDispatcher.sendHit(DRUM_NOTES[finger], this.pinchVelocity);
+      if (!this.internalSynth) return;
+      this.ensureSynth();
+      this.playDrum(finger);
+      return;
+    }
+    this.midiDispatcher.sendNoteOut(noteAdj, this.pinchVelocity);
+    this.sentNotes[id] = noteAdj;
+    if (!this.internalSynth) return;
+    this.ensureSynth();
+    if (!this.audioCtx) return;
     const freq = 440 * Math.pow(2, (noteAdj - 69) / 12);
     const now = this.audioCtx.currentTime;
     const o = this.audioCtx.createOscillator();
@@ -726,14 +1163,10 @@ export class PromptDjMidi extends LitElement {
       case 'flute': o.type = 'sine'; filter.frequency.value = 6000; break;
       case 'violin': o.type = 'sawtooth'; filter.frequency.value = 4000; break;
       case 'bass': o.type = 'square'; filter.frequency.value = 1200; break;
-      case 'drums':
-        // Drums: quick one-shot based on key position
-        this.playDrum((['thumb','index','middle','ring','pinky'] as const)[Math.floor(Math.random()*5)]);
-        return;
       default: o.type = 'sine';
     }
     o.frequency.value = freq;
-    o.connect(g); g.connect(filter); filter.connect(this.audioCtx.destination);
+    o.connect(g); g.connect(filter); filter.connect(this.synthDestination ?? this.audioCtx.destination);
     g.gain.setValueAtTime(0, now);
     const attack = insKey === 'violin' ? 0.05 : insKey === 'flute' ? 0.03 : 0.01;
     g.gain.linearRampToValueAtTime(0.35, now + attack);
@@ -744,6 +1177,10 @@ export class PromptDjMidi extends LitElement {
   }
 
   private noteOff(id: string) {
+    if (id in this.sentNotes) {
+      this.midiDispatcher.sendNoteOut(this.sentNotes[id], 0);
+      delete this.sentNotes[id];
+    }
     if (!this.audioCtx) return;
     const v = this.activeVoices[id];
     if (!v) return;
@@ -763,12 +1200,16 @@ export class PromptDjMidi extends LitElement {
   }
 
   private ensureSynth() {
+    if (!this.audioCtx && this.audioContext) {
+      this.audioCtx = this.audioContext;
+    }
     if (!this.audioCtx) {
       try {
         this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
       } catch {}
     }
     if (!this.audioCtx) return;
+    if (this.audioCtx.state === 'suspended') this.audioCtx.resume();
     if (!this.instrumentNodes) this.instrumentNodes = {};
   }
 
@@ -776,7 +1217,7 @@ export class PromptDjMidi extends LitElement {
     if (!this.audioCtx) return;
     const now = this.audioCtx.currentTime;
     const g = this.audioCtx.createGain();
-    g.connect(this.audioCtx.destination);
+    g.connect(this.synthDestination ?? this.audioCtx.destination);
     const peak = 0.5;
     const end = now + 0.3;
     g.gain.setValueAtTime(peak, now);
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { Prompt, PromptRamp, RampUnit } from '../types';
+
+/**
+ * Sets up a timed ramp of one prompt's weight, e.g. up to 1.5 over 8 bars,
+ * and starts or cancels it. The ramp is held by the host: edits come out as
+ * `ramp-changed`, and `ramp-start` and `ramp-cancel` ask for it to be run or
+ * stopped. Bars follow the configured tempo, or the detected one without it.
+ */
+@customElement('ramp-panel')
+export class RampPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    .panel {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      align-items: center;
+      gap: 4px 8px;
+      padding: 8px 10px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      min-width: 220px;
+    }
+    .title,
+    .status,
+    .buttons {
+      grid-column: 1 / -1;
+    }
+    .title {
+      font-weight: 600;
+    }
+    .status {
+      opacity: 0.7;
+    }
+    label {
+      font-weight: 600;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 5px;
+    }
+    select,
+    input {
+      font: inherit;
+      background: #fff;
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      min-width: 0;
+    }
+    input {
+      width: 4em;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1px solid #fff;
+      border-radius: 3px;
+      padding: 0 4px;
+      user-select: none;
+    }
+  `;
+
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+  @property({ type: Object }) ramp: PromptRamp | null = null;
+  /** The prompts whose weight is ramping now. */
+  @property({ type: Array }) rampingPromptIds: string[] = [];
+
+  private change(changes: Partial<PromptRamp>) {
+    if (!this.ramp) return;
+    this.dispatchEvent(new CustomEvent<PromptRamp>('ramp-changed', { detail: { ...this.ramp, ...changes } }));
+  }
+
+  private handleNumberChange(field: 'to' | 'duration', max: number, e: Event) {
+    const value = Number((e.target as HTMLInputElement).value);
+    if (!Number.isFinite(value)) return;
+    this.change({ [field]: Math.min(Math.max(value, 0), max) });
+  }
+
+  private start() {
+    this.dispatchEvent(new CustomEvent('ramp-start'));
+  }
+
+  private cancel() {
+    this.dispatchEvent(new CustomEvent('ramp-cancel'));
+  }
+
+  override render() {
+    const ramp = this.ramp;
+    if (!ramp) return html``;
+    const ramping = this.rampingPromptIds
+      .map((promptId) => this.prompts.get(promptId)?.text)
+      .filter((text) => text !== undefined);
+    return html`<div class="panel">
+      <span class="title">Ramp</span>
+      <label for="prompt">Prompt</label>
+      <select
+        id="prompt"
+        .value=${ramp.promptId}
+        @change=${(e: Event) => this.change({ promptId: (e.target as HTMLSelectElement).value })}>
+        ${[...this.prompts.values()].map((prompt) => html`<option value=${prompt.promptId}>${prompt.text}</option>`)}
+      </select>
+      <label for="to">To</label>
+      <input
+        id="to"
+        type="number"
+        min="0"
+        max="2"
+        step="0.05"
+        .value=${String(ramp.to)}
+        @change=${(e: Event) => this.handleNumberChange('to', 2, e)} />
+      <label for="duration">Over</label>
+      <span class="row">
+        <input
+          id="duration"
+          type="number"
+          min="0"
+          max="64"
+          .value=${String(ramp.duration)}
+          @change=${(e: Event) => this.handleNumberChange('duration', 64, e)} />
+        <select
+          .value=${ramp.unit}
+          @change=${(e: Event) => this.change({ unit: (e.target as HTMLSelectElement).value as RampUnit })}>
+          <option value="bars">bars</option>
+          <option value="seconds">seconds</option>
+        </select>
+      </span>
+      <span class="row buttons">
+        <button @click=${this.start}>Start</button>
+        <button ?disabled=${!this.rampingPromptIds.includes(ramp.promptId)} @click=${this.cancel}>Cancel</button>
+      </span>
+      ${ramping.length ? html`<span class="status">Ramping ${ramping.join(', ')}</span>` : ''}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'ramp-panel': RampPanel;
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { Take } from '../types';
+import type { AudioRecorder } from '../utils/AudioRecorder';
+import type { TakeStore } from '../utils/TakeStore';
+
+function formatDuration(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+function extensionFor(blob: Blob) {
+  if (blob.type.includes('webm')) return 'webm';
+  if (blob.type.includes('ogg')) return 'ogg';
+  if (blob.type.includes('mp4')) return 'm4a';
+  return 'wav';
+}
+
+/** Record button plus a list of saved takes to download or delete. */
+@customElement('take-browser')
+export class TakeBrowser extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      top: 5px;
+      right: 5px;
+      z-index: 6;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-end;
+      gap: 5px;
+      color: #fff;
+      font-size: 12px;
+      -webkit-font-smoothing: antialiased;
+    }
+    #controls {
+      display: flex;
+      gap: 5px;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      user-select: none;
+      padding: 3px 6px;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+      &.recording {
+        background-color: #da2000;
+        border-color: #da2000;
+      }
+    }
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 6px;
+      background: #000a;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      max-height: 40vh;
+      overflow-y: auto;
+      min-width: 260px;
+    }
+    li {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      gap: 2px 8px;
+      padding: 4px 0;
+      &:not(:last-child) {
+        border-bottom: 1px solid #fff3;
+      }
+    }
+    .name {
+      font-weight: 600;
+    }
+    .meta {
+      opacity: 0.7;
+      font-family: monospace;
+    }
+    .actions {
+      grid-row: 1 / 3;
+      grid-column: 2;
+      display: flex;
+      gap: 4px;
+      align-items: center;
+    }
+    .empty {
+      opacity: 0.7;
+    }
+  `;
+
+  private readonly recorder: AudioRecorder;
+  private readonly store: TakeStore;
+
+  @state() private takes: Take[] = [];
+  @state() private expanded = false;
+  @state() private recording = false;
+  @state() private elapsed = 0;
+  private elapsedInterval: number | null = null;
+  private starting = false;
+  // counts on from the highest take number, so deleting a take never repeats a name
+  private nextTakeNumber = 1;
+
+  constructor(recorder: AudioRecorder, store: TakeStore) {
+    super();
+    this.recorder = recorder;
+    this.store = store;
+  }
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.loadTakes();
+  }
+
+  private async loadTakes() {
+    try {
+      this.takes = await this.store.list();
+      const numbers = this.takes.map((take) => Number(/^Take (\d+)$/.exec(take.name)?.[1] ?? 0));
+      this.nextTakeNumber = Math.max(this.nextTakeNumber, ...numbers.map((n) => n + 1));
+    } catch (e: any) {
+      this.dispatchError(`Could not load takes: ${e.message}`);
+    }
+  }
+
+  private dispatchError(message: string) {
+    this.dispatchEvent(new CustomEvent('error', { detail: message }));
+  }
+
+  private async toggleRecording() {
+    if (this.starting) return;
+    if (this.recording) {
+      await this.stopRecording();
+    } else {
+      await this.startRecording();
+    }
+  }
+
+  private async startRecording() {
+    this.starting = true;
+    try {
+      await this.recorder.start();
+    } catch (e: any) {
+      this.dispatchError(`Could not start recording: ${e.message}`);
+      return;
+    } finally {
+      this.starting = false;
+    }
+    this.recording = true;
+    this.elapsedInterval = window.setInterval(() => {
+      this.elapsed = this.recorder.elapsed / 1000;
+    }, 250);
+  }
+
+  private async stopRecording() {
+    if (this.elapsedInterval) clearInterval(this.elapsedInterval);
+    this.elapsedInterval = null;
+    this.recording = false;
+    this.elapsed = 0;
+    try {
+      const take = await this.recorder.stop();
+      const name = `Take ${this.nextTakeNumber++}`;
+      const saved = await this.store.add({ ...take, name });
+      this.takes = [saved, ...this.takes];
+      this.expanded = true;
+    } catch (e: any) {
+      this.dispatchError(`Could not save take: ${e.message}`);
+    }
+  }
+
+  private download(take: Take, blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${take.name}.${extensionFor(blob)}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  private async deleteTake(take: Take) {
+    try {
+      await this.store.delete(take.id);
+      this.takes = this.takes.filter((t) => t.id !== take.id);
+    } catch (e: any) {
+      this.dispatchError(`Could not delete take: ${e.message}`);
+    }
+  }
+
+  private toggleExpanded() {
+    this.expanded = !this.expanded;
+  }
+
+  private renderTake(take: Take) {
+    const created = new Date(take.createdAt).toLocaleString();
+    return html`<li>
+      <span class="name">${take.name}</span>
+      <span class="meta">${formatDuration(take.duration)} · ${created}</span>
+      <span class="actions">
+        <button @click=${() => this.download(take, take.wav)}>WAV</button>
+        ${take.compressed
+          ? html`<button @click=${() => this.download(take, take.compressed!)}>
+              ${extensionFor(take.compressed).toUpperCase()}
+            </button>`
+          : ''}
+        <button title="Delete" @click=${() => this.deleteTake(take)}>✕</button>
+      </span>
+    </li>`;
+  }
+
+  override render() {
+    return html`
+      <div id="controls">
+        <button
+          class=${classMap({ recording: this.recording })}
+          @click=${this.toggleRecording}>
+          ${this.recording ? `■ ${formatDuration(this.elapsed)}` : '● REC'}
+        </button>
+        <button
+          class=${classMap({ active: this.expanded })}
+          @click=${this.toggleExpanded}>
+          Takes (${this.takes.length})
+        </button>
+      </div>
+      ${this.expanded
+        ? html`<ul>
+            ${this.takes.length > 0
+              ? this.takes.map((take) => this.renderTake(take))
+              : html`<li class="empty">No takes yet.</li>`}
+          </ul>`
+        : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'take-browser': TakeBrowser;
+  }
+}
@@ -2,16 +2,21 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { css, html, LitElement } from 'lit';
+import { css, html, LitElement, svg } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
+import type { AudioFrame } from '../types';
+
 /** Maps prompt weight to halo size. */
 const MIN_HALO_SCALE = 1;
 const MAX_HALO_SCALE = 2;
 
 /** The amount of scale to add to the halo based on audio level. */
 const HALO_LEVEL_MODIFIER = 1;
+/** With a full analysis frame, bass drives the halo size and the highs its brightness. */
+const HALO_LOW_MODIFIER = 1.2;
+const HALO_HIGH_BRIGHTNESS = 1.5;
 
 /** A knob for adjusting and visualizing prompt weight. */
 @customElement('weight-knob')
@@ -51,8 +56,13 @@ export class WeightKnob extends LitElement {
   `;
 
   @property({ type: Number }) value = 0;
+  /** The part of the weight range a MIDI knob covers, drawn outside the track when narrower than 0-2. */
+  @property({ type: Number }) rangeMin = 0;
+  @property({ type: Number }) rangeMax = 2;
   @property({ type: String }) color = '#000';
   @property({ type: Number }) audioLevel = 0;
+  /** Takes over from `audioLevel` when set. */
+  @property({ type: Object }) audioFrame: AudioFrame | null = null;
 
   private dragStartPos = 0;
   private dragStartValue = 0;
@@ -117,19 +127,28 @@ export class WeightKnob extends LitElement {
     const rotationRange = Math.PI * 2 * 0.75;
     const minRot = -rotationRange / 2 - Math.PI / 2;
     const maxRot = rotationRange / 2 - Math.PI / 2;
-    const rot = minRot + (this.value / 2) * (maxRot - minRot);
+    const rotFor = (value: number) => minRot + (value / 2) * (maxRot - minRot);
+    const rot = rotFor(this.value);
     const dotStyle = styleMap({
       transform: `translate(40px, 40px) rotate(${rot}rad)`,
     });
 
     let scale = (this.value / 2) * (MAX_HALO_SCALE - MIN_HALO_SCALE);
     scale += MIN_HALO_SCALE;
-    scale += this.audioLevel * HALO_LEVEL_MODIFIER;
+    let brightness = 1;
+    if (this.audioFrame) {
+      const { bands, level } = this.audioFrame;
+      scale += (bands.low ?? level) * HALO_LOW_MODIFIER;
+      brightness += (bands.high ?? 0) * HALO_HIGH_BRIGHTNESS;
+    } else {
+      scale += this.audioLevel * HALO_LEVEL_MODIFIER;
+    }
 
     const haloStyle = styleMap({
       display: this.value > 0 ? 'block' : 'none',
       background: this.color,
       transform: `scale(${scale})`,
+      filter: brightness > 1 ? `brightness(${brightness})` : 'none',
     });
 
     return html`
@@ -156,6 +175,12 @@ export class WeightKnob extends LitElement {
           stroke="#fff"
           stroke-width="3"
           stroke-linecap="round" />
+        ${this.rangeMin > 0 || this.rangeMax < 2 ? svg`<path
+          d=${this.describeArc(40, 40, rotFor(this.rangeMin), rotFor(this.rangeMax), 38.5)}
+          fill="none"
+          stroke="#fffa"
+          stroke-width="1.5"
+          stroke-linecap="round" />` : ''}
       </svg>
     `;
   }
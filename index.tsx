@@ -4,14 +4,30 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { PlaybackState, Prompt } from './types';
+import type { AudioFrame, GenerationConfig, MidiDeviceChange, PlaybackState, Prompt, PromptRamp } from './types';
 import { GoogleGenAI, LiveMusicFilteredPrompt } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
+import { TakeBrowser } from './components/TakeBrowser';
+import { AudioVisualizer } from './components/AudioVisualizer';
+import { DjMixer } from './components/DjMixer';
+import type { DeckEvent } from './components/DjMixer';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import { PromptAutomation } from './utils/PromptAutomation';
+import { LyriaBackend } from './utils/MusicBackend';
+import type { MusicBackend } from './utils/MusicBackend';
+import { LocalMusicBackend } from './utils/LocalMusicBackend';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { AudioRecorder } from './utils/AudioRecorder';
+import { TakeStore } from './utils/TakeStore';
+import { MasterBus } from './utils/MasterBus';
+import { EffectsStage } from './utils/EffectsStage';
+import { BeatTracker } from './utils/BeatTracker';
+import { DeckMixer } from './utils/DeckMixer';
+import type { Deck } from './utils/DeckMixer';
+import { runDecodeBenchmark } from './utils/decodeBenchmark';
+import type { ReconnectAttempt } from './utils/ReconnectSupervisor';
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY, apiVersion: 'v1alpha' });
 const model = 'lyria-realtime-exp';
 
 function main() {
@@ -23,27 +39,101 @@ function main() {
   const toastMessage = new ToastMessage();
   document.body.appendChild(toastMessage);
 
-  const liveMusicHelper = new LiveMusicHelper(ai, model);
+  const liveMusicHelper = new LiveMusicHelper(createBackend());
   liveMusicHelper.setWeightedPrompts(initialPrompts);
 
+  const automation = new PromptAutomation(initialPrompts, (prompts) =>
+    liveMusicHelper.setWeightedPrompts(prompts),
+  );
+  automation.addEventListener('prompts-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<Map<string, Prompt>>;
+    pdjMidi.setPrompts(customEvent.detail);
+    pdjMidi.rampingPromptIds = automation.rampingPromptIds;
+  }));
+
   const audioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
   liveMusicHelper.extraDestination = audioAnalyser.node;
 
+  const beatTracker = new BeatTracker();
+  pdjMidi.beatTracker = beatTracker;
+  pdjMidi.looper = liveMusicHelper.looper;
+
+  const visualizer = new AudioVisualizer();
+  visualizer.analyser = audioAnalyser.node;
+  document.body.appendChild(visualizer);
+
+  // The session and the gesture synth share one master bus so takes capture both.
+  const audioContext = liveMusicHelper.audioContext;
+  const masterBus = new MasterBus(audioContext);
+  masterBus.output.connect(audioContext.destination);
+  const effects = new EffectsStage(audioContext);
+  effects.output.connect(masterBus.input);
+  liveMusicHelper.destination = effects.input;
+  pdjMidi.effects = effects;
+  pdjMidi.audioContext = audioContext;
+  pdjMidi.synthDestination = masterBus.input;
+  pdjMidi.masterBus = masterBus;
+
+  const recorder = new AudioRecorder(audioContext);
+  masterBus.output.connect(recorder.input);
+
+  const takeBrowser = new TakeBrowser(recorder, new TakeStore());
+  document.body.appendChild(takeBrowser);
+
   pdjMidi.addEventListener('prompts-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<Map<string, Prompt>>;
     const prompts = customEvent.detail;
-    liveMusicHelper.setWeightedPrompts(prompts);
+    automation.setPrompts(prompts);
+    // a hand on a ramping prompt cancels its ramp
+    pdjMidi.rampingPromptIds = automation.rampingPromptIds;
+  }));
+
+  pdjMidi.addEventListener('prompt-ramp', ((e: Event) => {
+    const customEvent = e as CustomEvent<PromptRamp>;
+    const { promptId, to, duration, unit } = customEvent.detail;
+    automation.ramp(promptId, to, duration, unit);
+    pdjMidi.rampingPromptIds = automation.rampingPromptIds;
+  }));
+
+  pdjMidi.addEventListener('prompt-ramp-cancel', ((e: Event) => {
+    const customEvent = e as CustomEvent<string>;
+    automation.cancelRamp(customEvent.detail);
+    pdjMidi.rampingPromptIds = automation.rampingPromptIds;
+  }));
+
+  pdjMidi.addEventListener('config-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<GenerationConfig>;
+    const config = customEvent.detail;
+    liveMusicHelper.setMusicGenerationConfig(config);
+    if (config.bpm !== null) {
+      automation.bpm = config.bpm;
+      effects.bpm = config.bpm;
+    }
+    beatTracker.seedBpm = config.bpm;
+  }));
+
+  // with no configured tempo, bar-length ramps and the delay follow what the tracker hears
+  beatTracker.addEventListener('tempo-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<number>;
+    if (beatTracker.seedBpm !== null) return;
+    automation.bpm = customEvent.detail;
+    effects.bpm = customEvent.detail;
   }));
 
   pdjMidi.addEventListener('play-pause', () => {
     liveMusicHelper.playPause();
   });
 
+  pdjMidi.addEventListener('stop', () => {
+    liveMusicHelper.stop();
+  });
+
   liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<PlaybackState>;
     const playbackState = customEvent.detail;
     pdjMidi.playbackState = playbackState;
     playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
+    if (playbackState === 'paused' || playbackState === 'stopped') beatTracker.reset();
   }));
 
   liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
@@ -53,6 +143,22 @@ function main() {
     pdjMidi.addFilteredPrompt(filteredPrompt.text!);
   }));
 
+  liveMusicHelper.addEventListener('reconnecting', ((e: Event) => {
+    const customEvent = e as CustomEvent<ReconnectAttempt>;
+    const { attempt, maxAttempts } = customEvent.detail;
+    pdjMidi.reconnectAttempt = attempt;
+    toastMessage.show(`Connection lost, reconnecting (attempt ${attempt} of ${maxAttempts})…`);
+  }));
+
+  liveMusicHelper.addEventListener('reconnected', () => {
+    pdjMidi.reconnectAttempt = 0;
+    toastMessage.hide();
+  });
+
+  liveMusicHelper.addEventListener('context-reset', () => {
+    pdjMidi.showContextReset();
+  });
+
   const errorToast = ((e: Event) => {
     const customEvent = e as CustomEvent<string>;
     const error = customEvent.detail;
@@ -60,7 +166,10 @@ function main() {
   });
 
   liveMusicHelper.addEventListener('error', errorToast);
+  liveMusicHelper.looper.addEventListener('error', errorToast);
   pdjMidi.addEventListener('error', errorToast);
+  pdjMidi.addEventListener('midi-device-changed', midiDeviceToast(toastMessage));
+  takeBrowser.addEventListener('error', errorToast);
 
   audioAnalyser.addEventListener('audio-level-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<number>;
@@ -68,9 +177,147 @@ function main() {
     pdjMidi.audioLevel = level;
   }));
 
+  audioAnalyser.addEventListener('audio-frame', ((e: Event) => {
+    const customEvent = e as CustomEvent<AudioFrame>;
+    pdjMidi.audioFrame = customEvent.detail;
+    beatTracker.process(customEvent.detail);
+  }));
+
 }
 
-function buildInitialPrompts() {
+/** Tells the user when a MIDI controller is plugged in or unplugged. */
+function midiDeviceToast(toastMessage: ToastMessage) {
+  return ((e: Event) => {
+    const customEvent = e as CustomEvent<MidiDeviceChange>;
+    const { name, connected } = customEvent.detail;
+    toastMessage.show(connected ? `MIDI device connected: ${name}` : `MIDI device disconnected: ${name}`);
+  });
+}
+
+/** Two decks, each its own session with its own prompts, blended by a crossfader. */
+function startDjMode() {
+  const toastMessage = new ToastMessage();
+  document.body.appendChild(toastMessage);
+
+  // one context for both decks so they can share a mixer
+  const audioContext = new AudioContext({ sampleRate: 48000 });
+  const masterBus = new MasterBus(audioContext);
+  masterBus.output.connect(audioContext.destination);
+  const deckMixer = new DeckMixer(audioContext);
+  deckMixer.output.connect(masterBus.input);
+
+  // deck B's knobs sit on the CCs after deck A's
+  const deckPrompts: [Map<string, Prompt>, Map<string, Prompt>] = [
+    buildInitialPrompts(),
+    buildInitialPrompts(DEFAULT_PROMPTS.length),
+  ];
+  const djMixer = new DjMixer(deckMixer, deckPrompts);
+  djMixer.masterBus = masterBus;
+  document.body.appendChild(djMixer);
+
+  const errorToast = ((e: Event) => {
+    const customEvent = e as CustomEvent<string>;
+    const error = customEvent.detail;
+    toastMessage.show(error);
+  });
+  djMixer.addEventListener('error', errorToast);
+  djMixer.addEventListener('midi-device-changed', midiDeviceToast(toastMessage));
+
+  const backend = createBackend();
+  const decks = ([0, 1] as Deck[]).map((deck) => {
+    const liveMusicHelper = new LiveMusicHelper(backend, audioContext);
+    liveMusicHelper.destination = deckMixer.inputs[deck];
+    liveMusicHelper.setWeightedPrompts(deckPrompts[deck]);
+
+    const automation = new PromptAutomation(deckPrompts[deck], (prompts) =>
+      liveMusicHelper.setWeightedPrompts(prompts),
+    );
+    automation.addEventListener('prompts-changed', ((e: Event) => {
+      const customEvent = e as CustomEvent<Map<string, Prompt>>;
+      djMixer.setPrompts(deck, customEvent.detail);
+    }));
+
+    const audioAnalyser = new AudioAnalyser(audioContext);
+    liveMusicHelper.extraDestination = audioAnalyser.node;
+    audioAnalyser.addEventListener('audio-level-changed', ((e: Event) => {
+      const customEvent = e as CustomEvent<number>;
+      djMixer.setAudioLevel(deck, customEvent.detail);
+    }));
+
+    const beatTracker = new BeatTracker();
+    audioAnalyser.addEventListener('audio-frame', ((e: Event) => {
+      const customEvent = e as CustomEvent<AudioFrame>;
+      beatTracker.process(customEvent.detail);
+    }));
+
+    liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
+      const customEvent = e as CustomEvent<PlaybackState>;
+      const playbackState = customEvent.detail;
+      djMixer.setPlaybackState(deck, playbackState);
+      playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
+      if (playbackState === 'paused' || playbackState === 'stopped') beatTracker.reset();
+    }));
+
+    liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
+      const customEvent = e as CustomEvent<LiveMusicFilteredPrompt>;
+      const filteredPrompt = customEvent.detail;
+      toastMessage.show(filteredPrompt.filteredReason!);
+      djMixer.addFilteredPrompt(deck, filteredPrompt.text!);
+    }));
+
+    liveMusicHelper.addEventListener('reconnecting', ((e: Event) => {
+      const customEvent = e as CustomEvent<ReconnectAttempt>;
+      const { attempt, maxAttempts } = customEvent.detail;
+      djMixer.setReconnectAttempt(deck, attempt);
+      toastMessage.show(`Deck ${deck === 0 ? 'A' : 'B'} lost its connection, reconnecting (attempt ${attempt} of ${maxAttempts})…`);
+    }));
+
+    liveMusicHelper.addEventListener('reconnected', () => {
+      djMixer.setReconnectAttempt(deck, 0);
+      toastMessage.hide();
+    });
+
+    liveMusicHelper.addEventListener('error', errorToast);
+
+    return { liveMusicHelper, automation, beatTracker };
+  });
+  djMixer.beatTrackers = decks.map((deck) => deck.beatTracker);
+
+  djMixer.addEventListener('prompts-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<DeckEvent<Map<string, Prompt>>>;
+    const { deck, value } = customEvent.detail;
+    decks[deck].automation.setPrompts(value);
+  }));
+
+  djMixer.addEventListener('play-pause', ((e: Event) => {
+    const customEvent = e as CustomEvent<Deck>;
+    decks[customEvent.detail].liveMusicHelper.playPause();
+  }));
+}
+
+/**
+ * Picks the music backend from `?backend=` or the MUSIC_BACKEND env setting.
+ * The local backend also reads `?filter=word,word` and `?disconnectAfter=<seconds>`.
+ */
+function createBackend(): MusicBackend {
+  const params = new URLSearchParams(window.location.search);
+  const backend = params.get('backend') ?? process.env.MUSIC_BACKEND ?? 'lyria';
+
+  if (backend === 'local') {
+    const filter = params.get('filter');
+    const disconnectAfter = params.get('disconnectAfter');
+    return new LocalMusicBackend({
+      filteredWords: filter ? filter.split(',') : [],
+      disconnectAfterMs: disconnectAfter ? Number(disconnectAfter) * 1000 : null,
+    });
+  }
+
+  const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY, apiVersion: 'v1alpha' });
+  return new LyriaBackend(ai, model);
+}
+
+/** `idOffset` numbers the prompts on from another deck's, so ids and default CCs don't clash. */
+function buildInitialPrompts(idOffset = 0) {
   // Pick 3 random prompts to start at weight = 1
   const startOn = [...DEFAULT_PROMPTS]
     .sort(() => Math.random() - 0.5)
@@ -79,14 +326,13 @@ function buildInitialPrompts() {
   const prompts = new Map<string, Prompt>();
 
   for (let i = 0; i < DEFAULT_PROMPTS.length; i++) {
-    const promptId = `prompt-${i}`;
+    const promptId = `prompt-${i + idOffset}`;
     const prompt = DEFAULT_PROMPTS[i];
     const { text, color } = prompt;
     prompts.set(promptId, {
       promptId,
       text,
       weight: startOn.includes(prompt) ? 1 : 0,
-      cc: i,
       color,
     });
   }
@@ -113,4 +359,14 @@ const DEFAULT_PROMPTS = [
   { color: '#d9b2ff', text: 'Thrash' },
 ];
 
-main();
+const params = new URLSearchParams(window.location.search);
+
+if (params.get('mode') === 'dj') {
+  startDjMode();
+} else {
+  main();
+}
+
+if (params.get('benchmark') === 'decode') {
+  runDecodeBenchmark();
+}
@@ -2,18 +2,273 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import type { Scale } from '@google/genai';
+
 export interface Prompt {
   readonly promptId: string;
   text: string;
   weight: number;
-  cc: number;
   color: string;
 }
 
 export interface ControlChange {
+  /** The MIDI input the message arrived on. */
+  deviceId: string;
+  channel: number;
+  cc: number;
+  value: number;
+}
+
+export interface NoteMessage {
+  deviceId: string;
+  channel: number;
+  note: number;
+  /** 0 for a note-off, including a note-on at velocity 0. */
+  velocity: number;
+}
+
+export interface ProgramChange {
+  deviceId: string;
+  channel: number;
+  program: number;
+}
+
+export interface PitchBend {
+  deviceId: string;
+  channel: number;
+  /** -1 to 1, 0 at rest. */
+  value: number;
+}
+
+export interface Aftertouch {
+  deviceId: string;
   channel: number;
+  /** The key pressed, or null for channel pressure. */
+  note: number | null;
+  pressure: number;
+}
+
+/** A MIDI input plugged in or unplugged. */
+export interface MidiDeviceChange {
+  deviceId: string;
+  name: string;
+  connected: boolean;
+}
+
+/** Where the gesture piano's notes go out: an output and a channel, 0-15. */
+export interface NoteOutput {
+  outputId: string;
+  channel: number;
+}
+
+/** A MIDI start, continue or stop message from the gear whose clock is followed. */
+export type ClockTransport = 'start' | 'continue' | 'stop';
+
+export type RampUnit = 'seconds' | 'bars';
+
+/** A timed move of one prompt's weight, from wherever it is to `to`. */
+export interface PromptRamp {
+  promptId: string;
+  to: number;
+  duration: number;
+  unit: RampUnit;
+}
+
+/** What a pad mapped to a prompt does: switch it on and off, or hold it at full weight. */
+export type PadMode = 'toggle' | 'flash';
+
+/**
+ * A controller light that shows whether the session is playing, e.g. the LED
+ * of the button mapped to play. A null device lights it on every controller.
+ */
+export interface PlayStateFeedback {
+  deviceId: string | null;
+  type: 'note' | 'cc';
+  channel: number;
+  number: number;
+  /** Velocity or CC value sent while playing. Stopping sends 0. */
+  value: number;
+}
+
+/**
+ * How a CC mapping's messages carry its value. Relative encoders send steps
+ * rather than positions: `relative-twos` as two's complement (1 up, 127 down),
+ * `relative-offset` around 64 (65 up, 63 down) and `relative-signed` with
+ * bit 6 as the sign (1 up, 65 down). `14bit` pairs the CC with its LSB at
+ * CC + 32, and `nrpn` reads a 14-bit NRPN parameter.
+ */
+export type CcEncoding =
+  | 'absolute'
+  | 'relative-twos'
+  | 'relative-offset'
+  | 'relative-signed'
+  | '14bit'
+  | 'nrpn';
+
+/**
+ * What an absolute knob does when it is out of step with its control, e.g.
+ * after the mouse moved it: `jump` to the knob's position, `pickup` nothing
+ * until the knob passes the control's value, or `scale` the remaining travel
+ * so the two meet at the end of it.
+ */
+export type TakeoverPolicy = 'jump' | 'pickup' | 'scale';
+
+/** How a knob's travel is spread over its control's range. */
+export type ResponseCurve = 'linear' | 'exponential' | 's-curve';
+
+/** Which CC drives a control. A null device or channel matches any. */
+export interface MidiMapping {
+  deviceId: string | null;
+  channel: number | null;
+  /** The CC number, or the parameter number for `nrpn`. */
   cc: number;
+  /** Absolute 7-bit when missing. */
+  encoding?: CcEncoding;
+  /** `jump` when missing. Relative encoders never need to take over. */
+  takeover?: TakeoverPolicy;
+  /** The part of the control's range, 0-1, the knob's travel covers. 0 and 1 when missing. */
+  min?: number;
+  max?: number;
+  /** `linear` when missing. */
+  curve?: ResponseCurve;
+  /** Whether turning the knob up turns the control down. */
+  invert?: boolean;
+}
+
+/** A NRPN parameter set through CCs 99, 98, 6 and 38. */
+export interface NrpnMessage {
+  deviceId: string;
+  channel: number;
+  parameter: number;
+  /** 0-16383. */
   value: number;
 }
 
-export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+/**
+ * A mapped control's decoded input: a position from 0 to 1, or for relative
+ * encoders a move, in the same units.
+ */
+export type ControlValue =
+  | { controlId: string; type: 'absolute'; value: number }
+  | { controlId: string; type: 'relative'; delta: number };
+
+/** A pad or key that drives a control. A null device or channel matches any. */
+export interface NoteMapping {
+  deviceId: string | null;
+  channel: number | null;
+  note: number;
+}
+
+/** A program change that triggers a control, e.g. an app action. A null device or channel matches any. */
+export interface ProgramMapping {
+  deviceId: string | null;
+  channel: number | null;
+  program: number;
+}
+
+export type ControlMapping = MidiMapping | NoteMapping | ProgramMapping;
+
+/** A stored set of prompts, recalled by a MIDI program change. */
+export interface PromptBank {
+  program: number;
+  prompts: Array<Pick<Prompt, 'text' | 'weight' | 'color'>>;
+}
+
+/** A named set of mappings, keyed by control id. */
+export interface MidiProfile {
+  name: string;
+  /** Loaded automatically when an input whose name contains this connects. */
+  deviceName: string | null;
+  mappings: Record<string, ControlMapping>;
+}
+
+/** Music generation settings sent to the session alongside the prompts. */
+export interface GenerationConfig {
+  /** `null` lets the model pick. */
+  bpm: number | null;
+  density: number | null;
+  brightness: number | null;
+  scale: Scale;
+  guidance: number;
+  temperature: number;
+  /** `null` uses a random seed. */
+  seed: number | null;
+}
+
+/** The numeric fields of `GenerationConfig`, each of which can be MIDI mapped. */
+export type GenerationConfigParam =
+  | 'bpm'
+  | 'density'
+  | 'brightness'
+  | 'guidance'
+  | 'temperature'
+  | 'seed';
+
+/** A recording of the live output, as persisted by the take browser. */
+export interface Take {
+  readonly id: string;
+  name: string;
+  /** Epoch milliseconds when the recording started. */
+  createdAt: number;
+  /** Length in seconds. */
+  duration: number;
+  wav: Blob;
+  compressed: Blob | null;
+}
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused' | 'reconnecting';
+
+/** Settings for the master output chain. Levels are in dB. */
+export interface MasterSettings {
+  low: number;
+  mid: number;
+  high: number;
+  threshold: number;
+  ratio: number;
+  ceiling: number;
+  volume: number;
+}
+
+export type MasterParam = keyof MasterSettings;
+
+/** One tick of audio analysis. Band energies and `level` are 0-1. */
+export interface AudioFrame {
+  /** Mean spectrum level, the value `audio-level-changed` carries. */
+  level: number;
+  /** dBFS, -Infinity for silence. */
+  rms: number;
+  peak: number;
+  /** Energy per band, keyed by band name. */
+  bands: Record<string, number>;
+  /** Spectral centroid in Hz, a rough measure of brightness. */
+  centroid: number;
+  /** Onset strength, how much spectral energy rose since the last tick. */
+  flux: number;
+  /** Whether a note or hit started on this tick. */
+  onset: boolean;
+}
+
+/** Delay times in beats, written as note lengths; `d` is dotted. */
+export type DelayDivision = '1/16' | '1/8' | '1/8d' | '1/4' | '1/4d' | '1/2' | '1';
+
+/** Settings for the performance effects between the session and the master bus. */
+export interface EffectsSettings {
+  /** Isolator band gains, 1 is unity. */
+  low: number;
+  mid: number;
+  high: number;
+  lowKill: boolean;
+  midKill: boolean;
+  highKill: boolean;
+  /** -1 is a full low-pass sweep, 1 a full high-pass, 0 is open. */
+  filter: number;
+  delaySend: number;
+  delayFeedback: number;
+  delayDivision: DelayDivision;
+  reverbSend: number;
+}
+
+/** The continuous fields of `EffectsSettings`, each of which can be MIDI mapped. */
+export type EffectsParam = 'low' | 'mid' | 'high' | 'filter' | 'delaySend' | 'delayFeedback' | 'reverbSend';
+
+export type IsolatorBand = 'low' | 'mid' | 'high';
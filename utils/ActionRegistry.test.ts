@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it, vi } from 'vitest';
+
+import { ActionRegistry } from './ActionRegistry';
+
+function registry() {
+  const actions = new ActionRegistry();
+  const trigger = vi.fn();
+  const continuous = vi.fn();
+  actions.register(
+    { id: 'play-pause', label: 'Play/pause', kind: 'trigger', run: trigger },
+    { id: 'master-volume', label: 'Master volume', kind: 'continuous', run: continuous },
+  );
+  return { actions, trigger, continuous };
+}
+
+describe('ActionRegistry.perform', () => {
+  it('runs a trigger once as its button goes down', () => {
+    const { actions, trigger } = registry();
+    actions.perform('play-pause', 1);
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(trigger).toHaveBeenCalledWith(1);
+  });
+
+  it('does not run a trigger again while it is held', () => {
+    const { actions, trigger } = registry();
+    actions.perform('play-pause', 1);
+    actions.perform('play-pause', 0.8);
+    actions.perform('play-pause', 1);
+    expect(trigger).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs a trigger again once let go and pressed', () => {
+    const { actions, trigger } = registry();
+    actions.perform('play-pause', 1);
+    actions.perform('play-pause', 0);
+    actions.perform('play-pause', 1);
+    expect(trigger).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores a trigger moving below halfway', () => {
+    const { actions, trigger } = registry();
+    actions.perform('play-pause', 0.2);
+    actions.perform('play-pause', 0.4);
+    expect(trigger).not.toHaveBeenCalled();
+  });
+
+  it('passes every value to a continuous action', () => {
+    const { actions, continuous } = registry();
+    for (const value of [0.2, 0.7, 0.7, 0]) actions.perform('master-volume', value);
+    expect(continuous.mock.calls.map(([value]) => value)).toEqual([0.2, 0.7, 0.7, 0]);
+  });
+
+  it('ignores an unknown action', () => {
+    const { actions, trigger, continuous } = registry();
+    actions.perform('missing', 1);
+    expect(trigger).not.toHaveBeenCalled();
+    expect(continuous).not.toHaveBeenCalled();
+  });
+});
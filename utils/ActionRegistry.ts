@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Something the app does that a MIDI control can be mapped to, e.g. play/pause. */
+export interface AppAction {
+  readonly id: string;
+  label: string;
+  /** `trigger` actions run when their button is pressed; `continuous` ones follow a knob. */
+  kind: 'trigger' | 'continuous';
+  /** For continuous actions, where the control is now, 0-1, for relative encoders and takeover. */
+  value?: () => number;
+  /** Runs the action; continuous ones get the knob's value, 0-1. */
+  run: (value: number) => void;
+}
+
+/** A button is pressed once its value rises past this, 0-1, and let go once it falls back. */
+const PRESS_THRESHOLD = 0.5;
+
+/** Where an action's mapping is kept, apart from the panels' controls. */
+export function actionControlId(actionId: string) {
+  return `action:${actionId}`;
+}
+
+/**
+ * The app actions that can be MIDI mapped, listed in the order registered.
+ * Dispatches `actions-changed` when one is registered, or when a continuous
+ * action's value moves other than through its control.
+ */
+export class ActionRegistry extends EventTarget {
+  private readonly registered = new Map<string, AppAction>();
+  // triggers whose button is down, so holding it doesn't run them again
+  private readonly pressed = new Set<string>();
+
+  get actions(): AppAction[] {
+    return [...this.registered.values()];
+  }
+
+  get(id: string): AppAction | null {
+    return this.registered.get(id) ?? null;
+  }
+
+  /** Adds actions, replacing any with the same id. */
+  register(...actions: AppAction[]) {
+    for (const action of actions) this.registered.set(action.id, action);
+    this.dispatchEvent(new Event('actions-changed'));
+  }
+
+  /**
+   * Passes an action its control's value, 0-1. A continuous action follows it;
+   * a trigger runs as the value rises past halfway, as a button goes down.
+   */
+  perform(id: string, value: number) {
+    const action = this.registered.get(id);
+    if (!action) return;
+    if (action.kind === 'continuous') {
+      action.run(value);
+      return;
+    }
+    if (value < PRESS_THRESHOLD) {
+      this.pressed.delete(id);
+    } else if (!this.pressed.has(id)) {
+      this.pressed.add(id);
+      action.run(1);
+    }
+  }
+
+  /** Tells listeners a continuous action's value has moved, e.g. from its panel. */
+  notifyValuesChanged() {
+    this.dispatchEvent(new Event('actions-changed'));
+  }
+}
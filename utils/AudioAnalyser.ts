@@ -2,27 +2,145 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-/** Simple class for getting the current audio level. */
+import type { AudioFrame } from '../types';
+
+export interface BandSpec {
+  name: string;
+  /** Hz */
+  low: number;
+  high: number;
+}
+
+export interface AudioAnalyserOptions {
+  bands: BandSpec[];
+  /** How far spectral flux must rise above its recent average to count as an onset. */
+  onsetThreshold: number;
+}
+
+export const DEFAULT_BANDS: BandSpec[] = [
+  { name: 'low', low: 20, high: 250 },
+  { name: 'mid', low: 250, high: 4000 },
+  { name: 'high', low: 4000, high: 16000 },
+];
+
+const DEFAULT_OPTIONS: AudioAnalyserOptions = {
+  bands: DEFAULT_BANDS,
+  onsetThreshold: 1.5,
+};
+
+/** Ticks of flux history the onset threshold averages over, about 0.7s. */
+const FLUX_HISTORY = 40;
+/** Flux below this never counts as an onset, so noise in quiet passages doesn't trigger. */
+const MIN_ONSET_FLUX = 0.01;
+const ONSET_REFRACTORY_MS = 100;
+
+/**
+ * Analyses audio once per animation frame. Dispatches `audio-frame` with an
+ * `AudioFrame`, and `audio-level-changed` with just the overall level for
+ * consumers that only need one number.
+ */
 export class AudioAnalyser extends EventTarget {
   readonly node: AnalyserNode;
-  private readonly freqData: Uint8Array;
+  private readonly options: AudioAnalyserOptions;
+  private readonly freqData: Float32Array<ArrayBuffer>;
+  private readonly timeData: Float32Array<ArrayBuffer>;
+  /** The last frame's normalized spectrum, for flux. */
+  private readonly spectrum: Float32Array;
+  private readonly bandBins: Array<[number, number]>;
+  private readonly fluxHistory: number[] = [];
+  private lastOnsetMs = 0;
   private rafId: number | null = null;
-  constructor(context: AudioContext) {
+  constructor(context: AudioContext, options: Partial<AudioAnalyserOptions> = {}) {
     super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
     this.node = context.createAnalyser();
     this.node.smoothingTimeConstant = 0;
-    this.freqData = new Uint8Array(this.node.frequencyBinCount);
+    this.freqData = new Float32Array(this.node.frequencyBinCount);
+    this.timeData = new Float32Array(this.node.fftSize);
+    this.spectrum = new Float32Array(this.node.frequencyBinCount);
+    const binHz = context.sampleRate / this.node.fftSize;
+    this.bandBins = this.options.bands.map(({ low, high }) => {
+      const start = Math.max(1, Math.floor(low / binHz));
+      const end = Math.min(this.node.frequencyBinCount, Math.ceil(high / binHz));
+      return [start, Math.max(start + 1, end)];
+    });
     this.loop = this.loop.bind(this);
   }
+  /** 0-1, the spectrum scaled between the analyser's min and max decibels. */
+  private normalize(db: number) {
+    const { minDecibels, maxDecibels } = this.node;
+    return Math.min(Math.max((db - minDecibels) / (maxDecibels - minDecibels), 0), 1);
+  }
   getCurrentLevel() {
-    this.node.getByteFrequencyData(this.freqData);
-    const avg = this.freqData.reduce((a, b) => a + b, 0) / this.freqData.length;
-    return avg / 0xff;
+    this.node.getFloatFrequencyData(this.freqData);
+    let sum = 0;
+    for (const db of this.freqData) sum += this.normalize(db);
+    return sum / this.freqData.length;
+  }
+  getFrame(): AudioFrame {
+    this.node.getFloatFrequencyData(this.freqData);
+    this.node.getFloatTimeDomainData(this.timeData);
+
+    let squares = 0;
+    let peak = 0;
+    for (const sample of this.timeData) {
+      squares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+
+    const binHz = this.node.context.sampleRate / this.node.fftSize;
+    let levelSum = 0;
+    let flux = 0;
+    let weightedHz = 0;
+    let magnitudeSum = 0;
+    for (let i = 0; i < this.freqData.length; i++) {
+      const value = this.normalize(this.freqData[i]);
+      levelSum += value;
+      // only rising energy marks a new event
+      flux += Math.max(0, value - this.spectrum[i]);
+      this.spectrum[i] = value;
+      const magnitude = Math.pow(10, this.freqData[i] / 20);
+      weightedHz += i * binHz * magnitude;
+      magnitudeSum += magnitude;
+    }
+    flux /= this.freqData.length;
+
+    const bands: Record<string, number> = {};
+    this.options.bands.forEach(({ name }, b) => {
+      const [start, end] = this.bandBins[b];
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += this.spectrum[i];
+      bands[name] = sum / (end - start);
+    });
+
+    return {
+      level: levelSum / this.freqData.length,
+      rms: 10 * Math.log10(squares / this.timeData.length),
+      peak: 20 * Math.log10(peak),
+      bands,
+      centroid: magnitudeSum > 0 ? weightedHz / magnitudeSum : 0,
+      flux,
+      onset: this.detectOnset(flux),
+    };
+  }
+  private detectOnset(flux: number) {
+    const average = this.fluxHistory.length > 0
+      ? this.fluxHistory.reduce((a, b) => a + b, 0) / this.fluxHistory.length
+      : Infinity;
+    this.fluxHistory.push(flux);
+    if (this.fluxHistory.length > FLUX_HISTORY) this.fluxHistory.shift();
+
+    const now = performance.now();
+    if (flux < MIN_ONSET_FLUX || flux < average * this.options.onsetThreshold) return false;
+    if (now - this.lastOnsetMs < ONSET_REFRACTORY_MS) return false;
+    this.lastOnsetMs = now;
+    return true;
   }
   loop() {
     this.rafId = requestAnimationFrame(this.loop);
-    const level = this.getCurrentLevel();
-    this.dispatchEvent(new CustomEvent('audio-level-changed', { detail: level }));
+    const frame = this.getFrame();
+    this.dispatchEvent(new CustomEvent<AudioFrame>('audio-frame', { detail: frame }));
+    this.dispatchEvent(new CustomEvent('audio-level-changed', { detail: frame.level }));
   }
   start = this.loop;
   stop() {
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Take } from '../types';
+import { addWorkletModule, encodeWav } from './audio';
+
+/** Frames the tap collects before posting them to the main thread. */
+const TAP_BATCH_FRAMES = 4096;
+
+const TAP_PROCESSOR_SOURCE = `
+class RecorderTapProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.recording = false;
+    this.batch = [new Float32Array(${TAP_BATCH_FRAMES}), new Float32Array(${TAP_BATCH_FRAMES})];
+    this.length = 0;
+    this.port.onmessage = (e) => {
+      this.recording = e.data.recording;
+      if (!this.recording) {
+        this.flush();
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+  flush() {
+    if (this.length === 0) return;
+    const channels = this.batch.map((c) => c.slice(0, this.length));
+    this.port.postMessage({ type: 'data', channels }, channels.map((c) => c.buffer));
+    this.length = 0;
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (!this.recording || input.length === 0) return true;
+    const frames = input[0].length;
+    for (let c = 0; c < 2; c++) {
+      this.batch[c].set(input[c] ?? input[0], this.length);
+    }
+    this.length += frames;
+    if (this.length + frames > ${TAP_BATCH_FRAMES}) this.flush();
+    return true;
+  }
+}
+registerProcessor('recorder-tap', RecorderTapProcessor);
+`;
+
+const COMPRESSED_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+];
+
+/**
+ * Records everything connected to `input`, both as lossless PCM (for WAV
+ * export) and through MediaRecorder as compressed audio.
+ */
+export class AudioRecorder extends EventTarget {
+  readonly input: GainNode;
+
+  private readonly context: AudioContext;
+  private readonly streamDestination: MediaStreamAudioDestinationNode;
+  private readonly ready: Promise<AudioWorkletNode>;
+
+  private chunks: Float32Array[][] = [];
+  private mediaRecorder: MediaRecorder | null = null;
+  // a start waiting for the tap, shared so a second call doesn't make a second MediaRecorder
+  private starting: Promise<void> | null = null;
+  private compressedParts: Blob[] = [];
+  private startedAt = 0;
+  private resolveTapStopped: (() => void) | null = null;
+
+  constructor(context: AudioContext) {
+    super();
+    this.context = context;
+    this.input = context.createGain();
+    this.streamDestination = context.createMediaStreamDestination();
+    this.input.connect(this.streamDestination);
+    this.ready = this.createTap();
+  }
+
+  get recording() {
+    return this.mediaRecorder !== null;
+  }
+
+  /** Milliseconds since recording started, 0 when not recording. */
+  get elapsed() {
+    return this.recording ? Date.now() - this.startedAt : 0;
+  }
+
+  private async createTap() {
+    await addWorkletModule(this.context, TAP_PROCESSOR_SOURCE);
+    const tap = new AudioWorkletNode(this.context, 'recorder-tap', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 2,
+      channelCountMode: 'explicit',
+    });
+    tap.port.onmessage = (e: MessageEvent) => {
+      if (e.data.type === 'data') this.chunks.push(e.data.channels);
+      if (e.data.type === 'stopped') this.resolveTapStopped?.();
+    };
+    this.input.connect(tap);
+    return tap;
+  }
+
+  start(): Promise<void> {
+    if (this.recording) return Promise.resolve();
+    this.starting ??= this.begin().finally(() => {
+      this.starting = null;
+    });
+    return this.starting;
+  }
+
+  private async begin() {
+    const tap = await this.ready;
+
+    this.chunks = [];
+    this.compressedParts = [];
+    const mimeType = COMPRESSED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.mediaRecorder = new MediaRecorder(this.streamDestination.stream, mimeType ? { mimeType } : {});
+    this.mediaRecorder.ondataavailable = (e: BlobEvent) => {
+      if (e.data.size > 0) this.compressedParts.push(e.data);
+    };
+    this.mediaRecorder.start(1000);
+    tap.port.postMessage({ recording: true });
+    this.startedAt = Date.now();
+    this.dispatchEvent(new CustomEvent<boolean>('recording-changed', { detail: true }));
+  }
+
+  /** Stops recording and returns the take, minus the id and name the store assigns. */
+  async stop(): Promise<Omit<Take, 'id' | 'name'>> {
+    const mediaRecorder = this.mediaRecorder;
+    if (!mediaRecorder) throw new Error('Not recording.');
+    const tap = await this.ready;
+
+    const tapStopped = new Promise<void>((resolve) => {
+      this.resolveTapStopped = resolve;
+    });
+    const recorderStopped = new Promise<void>((resolve) => {
+      mediaRecorder.addEventListener('stop', () => resolve(), { once: true });
+    });
+    tap.port.postMessage({ recording: false });
+    mediaRecorder.stop();
+    this.mediaRecorder = null;
+    await Promise.all([tapStopped, recorderStopped]);
+    this.resolveTapStopped = null;
+
+    const channels = [0, 1].map((c) => {
+      const length = this.chunks.reduce((sum, chunk) => sum + chunk[c].length, 0);
+      const channel = new Float32Array(length);
+      let offset = 0;
+      for (const chunk of this.chunks) {
+        channel.set(chunk[c], offset);
+        offset += chunk[c].length;
+      }
+      return channel;
+    });
+    this.chunks = [];
+
+    const compressed = this.compressedParts.length > 0
+      ? new Blob(this.compressedParts, { type: mediaRecorder.mimeType })
+      : null;
+    this.compressedParts = [];
+
+    this.dispatchEvent(new CustomEvent<boolean>('recording-changed', { detail: false }));
+
+    return {
+      createdAt: this.startedAt,
+      duration: channels[0].length / this.context.sampleRate,
+      wav: encodeWav(channels, this.context.sampleRate),
+      compressed,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { BeatTracker } from './BeatTracker';
+import type { Beat } from './BeatTracker';
+import type { AudioFrame } from '../types';
+
+/** About a 60 Hz animation frame. */
+const FRAME_MS = 16;
+
+function frame(flux: number): AudioFrame {
+  return { level: flux, rms: -20, peak: 0.5, bands: { low: flux }, centroid: 1000, flux, onset: flux > 0 };
+}
+
+/**
+ * Plays `tracker` an onset on every beat at `bpm`, the first at `offsetMs`,
+ * from `from` until `to`, one frame at a time.
+ */
+function play(tracker: BeatTracker, bpm: number, from: number, to: number, offsetMs = 0) {
+  const beatMs = 60000 / bpm;
+  for (let time = from; time < to; time += FRAME_MS) {
+    const sinceBeat = (((time - offsetMs) % beatMs) + beatMs) % beatMs;
+    tracker.process(frame(sinceBeat < FRAME_MS ? 1 : 0), time);
+  }
+}
+
+function record(tracker: BeatTracker) {
+  const beats: Beat[] = [];
+  tracker.addEventListener('beat', (e) => beats.push((e as CustomEvent<Beat>).detail));
+  return beats;
+}
+
+describe('BeatTracker', () => {
+  it('finds the tempo of an onset train', () => {
+    const tracker = new BeatTracker();
+    play(tracker, 120, 0, 8000);
+    expect(tracker.bpm).toBeCloseTo(120, 0);
+  });
+
+  it('stays quiet until enough has been heard', () => {
+    const tracker = new BeatTracker();
+    const beats = record(tracker);
+    play(tracker, 120, 0, 3000);
+    expect(tracker.bpm).toBeNull();
+    expect(beats).toEqual([]);
+  });
+
+  it('snaps to a seeded tempo close to the one heard', () => {
+    const tracker = new BeatTracker();
+    tracker.seedBpm = 122;
+    play(tracker, 120, 0, 8000);
+    expect(tracker.bpm).toBe(122);
+  });
+
+  it('keeps the tempo heard when the seed is far from it', () => {
+    const tracker = new BeatTracker();
+    tracker.seedBpm = 100;
+    play(tracker, 120, 0, 8000);
+    // the seed still leans on the estimate, but isn't snapped to
+    expect(Math.abs(tracker.bpm! - 120)).toBeLessThan(5);
+  });
+
+  it('puts its beats on the onsets', () => {
+    const tracker = new BeatTracker();
+    const beats = record(tracker);
+    play(tracker, 120, 0, 12000, 130);
+    expect(beats.length).toBeGreaterThan(4);
+    for (const beat of beats.slice(-4)) {
+      const offset = (beat.time - 130) % 500;
+      expect(Math.min(offset, 500 - offset)).toBeLessThanOrEqual(2 * FRAME_MS);
+    }
+  });
+
+  it('fires one beat, not a burst, after a stall between frames', () => {
+    const tracker = new BeatTracker();
+    const beats = record(tracker);
+    play(tracker, 120, 0, 8000);
+    const before = beats.length;
+    // two seconds with no frame, four beats' worth
+    tracker.process(frame(0), 10000);
+    expect(beats.length - before).toBe(1);
+  });
+
+  it('counts the beats missed in a stall, so bars keep their place', () => {
+    const tracker = new BeatTracker();
+    const beats = record(tracker);
+    play(tracker, 120, 0, 8000);
+    const last = beats[beats.length - 1];
+    tracker.process(frame(0), last.time + 4 * 500 + 1);
+    const after = beats[beats.length - 1];
+    expect(after.beatInBar).toBe(last.beatInBar);
+    expect(after.bar).toBe(last.bar + 1);
+  });
+});
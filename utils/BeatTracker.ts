@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioFrame } from '../types';
+
+export interface Beat {
+  /** `performance.now()` time the beat was heard. */
+  time: number;
+  bpm: number;
+  /** 0 on the downbeat. */
+  beatInBar: number;
+  /** Bars since tracking started. */
+  bar: number;
+  /** 0-1, how periodic the onsets are at this tempo. */
+  confidence: number;
+}
+
+export const BEATS_PER_BAR = 4;
+
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+/** The onset envelope is resampled onto this grid before autocorrelating. */
+const ENVELOPE_STEP_MS = 20;
+const WINDOW_MS = 8000;
+/** Don't estimate until this much audio has been heard. */
+const MIN_WINDOW_MS = 4000;
+const ESTIMATE_INTERVAL_MS = 1000;
+/** Octaves either side of the expected tempo the prior falls off over. */
+const PRIOR_WIDTH = 0.5;
+const SEEDED_PRIOR_WIDTH = 0.15;
+/** A seeded tempo within this fraction of the estimate is taken as exact. */
+const SEED_SNAP = 0.04;
+/** Fraction of the measured phase error corrected at each estimate. */
+const PHASE_CORRECTION = 0.25;
+const DOWNBEAT_DECAY = 0.8;
+
+interface OnsetSample {
+  time: number;
+  flux: number;
+}
+
+/**
+ * Follows tempo and beat phase from `AudioAnalyser` frames. The tempo comes
+ * from autocorrelating the onset envelope, biased towards `seedBpm` when the
+ * generation config sets one. The downbeat is taken to be the beat with the
+ * most bass.
+ *
+ * Dispatches `beat` and, on downbeats, `bar`, both with a `Beat`, and
+ * `tempo-changed` with the BPM.
+ */
+export class BeatTracker extends EventTarget {
+  /** The configured BPM, or null to find the tempo unaided. */
+  public seedBpm: number | null = null;
+
+  private samples: OnsetSample[] = [];
+  private period: number | null = null;
+  private nextBeatMs: number | null = null;
+  private lastBeatMs: number | null = null;
+  private beatCount = 0;
+  private downbeatEnergy = new Array<number>(BEATS_PER_BAR).fill(0);
+  private lastEstimateMs = 0;
+  private currentConfidence = 0;
+
+  get bpm() {
+    return this.period ? 60000 / this.period : null;
+  }
+
+  get confidence() {
+    return this.currentConfidence;
+  }
+
+  /** Beat period in milliseconds, null until a tempo has been found. */
+  get beatMs() {
+    return this.period;
+  }
+
+  /** When the next beat is due, in `performance.now()` time. */
+  get nextBeatTime() {
+    return this.nextBeatMs;
+  }
+
+  /** When the most recent beat was heard, in `performance.now()` time. */
+  get lastBeatTime() {
+    if (this.period === null || this.nextBeatMs === null) return null;
+    return this.nextBeatMs > performance.now() ? this.nextBeatMs - this.period : this.nextBeatMs;
+  }
+
+  /** 0-1 progress from the last beat to the next. */
+  get phase() {
+    if (this.period === null || this.nextBeatMs === null) return 0;
+    const progress = 1 - (this.nextBeatMs - performance.now()) / this.period;
+    return Math.min(Math.max(progress, 0), 1);
+  }
+
+  /** Forgets everything heard, e.g. after pausing. Keeps the seed. */
+  reset() {
+    this.samples = [];
+    this.period = null;
+    this.nextBeatMs = null;
+    this.lastBeatMs = null;
+    this.beatCount = 0;
+    this.downbeatEnergy.fill(0);
+    this.currentConfidence = 0;
+  }
+
+  process(frame: AudioFrame, time = performance.now()) {
+    this.samples.push({ time, flux: frame.flux });
+    while (this.samples.length > 0 && time - this.samples[0].time > WINDOW_MS) {
+      this.samples.shift();
+    }
+
+    const heardMs = time - this.samples[0].time;
+    if (heardMs >= MIN_WINDOW_MS && time - this.lastEstimateMs >= ESTIMATE_INTERVAL_MS) {
+      this.lastEstimateMs = time;
+      this.estimate(time);
+    }
+
+    if (this.period === null || this.nextBeatMs === null) return;
+    // after a stall between frames, e.g. in a background tab, the beats missed
+    // are counted but not fired, so bars keep their place without a burst
+    const missed = Math.floor((time - this.nextBeatMs) / this.period);
+    if (missed > 0) {
+      this.nextBeatMs += missed * this.period;
+      this.beatCount += missed;
+    }
+    while (time >= this.nextBeatMs) {
+      this.emitBeat(this.nextBeatMs, frame.bands.low ?? frame.level);
+      this.nextBeatMs += this.period;
+    }
+  }
+
+  /** The onset envelope on a regular grid, mean removed. */
+  private envelope() {
+    const start = this.samples[0].time;
+    const end = this.samples[this.samples.length - 1].time;
+    const envelope = new Float32Array(Math.floor((end - start) / ENVELOPE_STEP_MS) + 1);
+    for (const { time, flux } of this.samples) {
+      const i = Math.round((time - start) / ENVELOPE_STEP_MS);
+      envelope[i] = Math.max(envelope[i], flux);
+    }
+    const mean = envelope.reduce((a, b) => a + b, 0) / envelope.length;
+    for (let i = 0; i < envelope.length; i++) envelope[i] -= mean;
+    return { envelope, start };
+  }
+
+  private estimate(now: number) {
+    const { envelope, start } = this.envelope();
+    const n = envelope.length;
+    const minLag = Math.floor(60000 / MAX_BPM / ENVELOPE_STEP_MS);
+    const maxLag = Math.min(Math.ceil(60000 / MIN_BPM / ENVELOPE_STEP_MS), n - 1);
+
+    let energy = 0;
+    for (let i = 0; i < n; i++) energy += envelope[i] * envelope[i];
+    if (energy === 0 || maxLag <= minLag + 1) return;
+    energy /= n;
+
+    const center = this.seedBpm ?? this.bpm ?? 120;
+    const width = this.seedBpm !== null ? SEEDED_PRIOR_WIDTH : PRIOR_WIDTH;
+    const scores = new Float32Array(maxLag + 1);
+    let bestLag = minLag;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = 0; i + lag < n; i++) sum += envelope[i] * envelope[i + lag];
+      const correlation = sum / (n - lag) / energy;
+      const octaves = Math.log2(60000 / (lag * ENVELOPE_STEP_MS) / center) / width;
+      scores[lag] = correlation * Math.exp(-0.5 * octaves * octaves);
+      if (scores[lag] > scores[bestLag]) bestLag = lag;
+    }
+    if (scores[bestLag] <= 0) return;
+
+    // parabolic interpolation between grid lags
+    let lag = bestLag;
+    if (bestLag > minLag && bestLag < maxLag) {
+      const [a, b, c] = [scores[bestLag - 1], scores[bestLag], scores[bestLag + 1]];
+      const denominator = a - 2 * b + c;
+      if (denominator !== 0) lag += (0.5 * (a - c)) / denominator;
+    }
+    let period = lag * ENVELOPE_STEP_MS;
+    if (this.seedBpm !== null && Math.abs(60000 / period - this.seedBpm) / this.seedBpm < SEED_SNAP) {
+      period = 60000 / this.seedBpm;
+    }
+    this.currentConfidence = Math.min(1, scores[bestLag]);
+
+    // phase: the offset whose beat grid lines up with the most onset energy
+    const periodBins = period / ENVELOPE_STEP_MS;
+    let bestOffset = 0;
+    let bestSum = -Infinity;
+    for (let offset = 0; offset < periodBins; offset++) {
+      let sum = 0;
+      for (let t = offset; t < n; t += periodBins) sum += envelope[Math.round(t)] ?? 0;
+      if (sum > bestSum) {
+        bestSum = sum;
+        bestOffset = offset;
+      }
+    }
+    let predicted = start + bestOffset * ENVELOPE_STEP_MS;
+    predicted += Math.ceil((now - predicted) / period) * period;
+
+    const previousBpm = this.bpm;
+    this.period = period;
+    if (this.nextBeatMs === null) {
+      this.nextBeatMs = predicted;
+    } else {
+      // nudge towards the measured phase rather than jumping, so beats don't stutter
+      let error = (predicted - this.nextBeatMs) % period;
+      if (error > period / 2) error -= period;
+      if (error < -period / 2) error += period;
+      this.nextBeatMs += error * PHASE_CORRECTION;
+    }
+    if (previousBpm === null || Math.abs(previousBpm - this.bpm!) >= 0.5) {
+      this.dispatchEvent(new CustomEvent<number>('tempo-changed', { detail: this.bpm! }));
+    }
+  }
+
+  private emitBeat(time: number, low: number) {
+    // don't double up when a phase correction pulls a beat back
+    if (this.lastBeatMs !== null && time - this.lastBeatMs < this.period! / 2) return;
+    this.lastBeatMs = time;
+
+    const slot = this.beatCount % BEATS_PER_BAR;
+    this.downbeatEnergy[slot] = this.downbeatEnergy[slot] * DOWNBEAT_DECAY + low;
+    const downbeatSlot = this.downbeatEnergy.indexOf(Math.max(...this.downbeatEnergy));
+    const beatInBar = (slot - downbeatSlot + BEATS_PER_BAR) % BEATS_PER_BAR;
+    const beat: Beat = {
+      time,
+      bpm: this.bpm!,
+      beatInBar,
+      bar: Math.floor((this.beatCount - downbeatSlot) / BEATS_PER_BAR),
+      confidence: this.currentConfidence,
+    };
+    this.beatCount++;
+
+    this.dispatchEvent(new CustomEvent<Beat>('beat', { detail: beat }));
+    if (beatInBar === 0) this.dispatchEvent(new CustomEvent<Beat>('bar', { detail: beat }));
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+export type CrossfadeCurve = 'linear' | 'constant-power' | 'cut';
+export type Deck = 0 | 1;
+
+/** Crossfader travel at each end that is treated as fully over on the `cut` curve. */
+const CUT_ZONE = 0.05;
+/** Smooths crossfader moves so stepped MIDI values don't zipper. */
+const RAMP_SECONDS = 0.02;
+
+/** Gains for deck A and deck B at crossfader position `x` (0 = all A, 1 = all B). */
+export function crossfadeGains(x: number, curve: CrossfadeCurve): [number, number] {
+  switch (curve) {
+    case 'linear':
+      return [1 - x, x];
+    case 'constant-power':
+      return [Math.cos((x * Math.PI) / 2), Math.sin((x * Math.PI) / 2)];
+    case 'cut':
+      return [x >= 1 - CUT_ZONE ? 0 : 1, x <= CUT_ZONE ? 0 : 1];
+  }
+}
+
+/**
+ * Blends two decks through a crossfader into one output. Each deck can also
+ * be cued to a second output device, e.g. headphones, where the browser
+ * lets us pick one.
+ */
+export class DeckMixer {
+  /** Connect each deck's session here. */
+  readonly inputs: [GainNode, GainNode];
+  readonly output: GainNode;
+
+  private readonly context: AudioContext;
+  private readonly crossfade: [GainNode, GainNode];
+  private readonly cueGains: [GainNode, GainNode];
+  private readonly cueStream: MediaStreamAudioDestinationNode;
+  private readonly cueElement: HTMLAudioElement;
+
+  private position = 0.5;
+  private crossfadeCurve: CrossfadeCurve = 'constant-power';
+
+  static get cueSupported() {
+    return 'setSinkId' in HTMLMediaElement.prototype;
+  }
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+    this.cueStream = context.createMediaStreamDestination();
+    this.cueElement = new Audio();
+    this.cueElement.srcObject = this.cueStream.stream;
+
+    const createDeck = () => {
+      const input = context.createGain();
+      const crossfade = context.createGain();
+      const cue = context.createGain();
+      cue.gain.value = 0;
+      input.connect(crossfade);
+      crossfade.connect(this.output);
+      // cue taps the deck before the crossfader so a faded-out deck can be previewed
+      input.connect(cue);
+      cue.connect(this.cueStream);
+      return { input, crossfade, cue };
+    };
+    const a = createDeck();
+    const b = createDeck();
+    this.inputs = [a.input, b.input];
+    this.crossfade = [a.crossfade, b.crossfade];
+    this.cueGains = [a.cue, b.cue];
+    this.applyCrossfade();
+  }
+
+  get crossfader() {
+    return this.position;
+  }
+
+  get curve() {
+    return this.crossfadeCurve;
+  }
+
+  setCrossfader(position: number) {
+    this.position = Math.min(Math.max(position, 0), 1);
+    this.applyCrossfade();
+  }
+
+  setCurve(curve: CrossfadeCurve) {
+    this.crossfadeCurve = curve;
+    this.applyCrossfade();
+  }
+
+  private applyCrossfade() {
+    const gains = crossfadeGains(this.position, this.crossfadeCurve);
+    const now = this.context.currentTime;
+    this.crossfade.forEach((node, i) => {
+      node.gain.setTargetAtTime(gains[i], now, RAMP_SECONDS / 3);
+    });
+  }
+
+  /** Lists output devices for the cue. Labels are empty until the user grants media access. */
+  async getCueDevices(): Promise<MediaDeviceInfo[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === 'audiooutput');
+  }
+
+  /** Sends the cue to `deviceId`, or silences it when null. */
+  async setCueDevice(deviceId: string | null) {
+    if (!DeckMixer.cueSupported) {
+      throw new Error('This browser does not support choosing an audio output device.');
+    }
+    if (deviceId === null) {
+      this.cueElement.pause();
+      return;
+    }
+    await this.cueElement.setSinkId(deviceId);
+    await this.cueElement.play();
+  }
+
+  setCue(deck: Deck, enabled: boolean) {
+    this.cueGains[deck].gain.setTargetAtTime(enabled ? 1 : 0, this.context.currentTime, RAMP_SECONDS / 3);
+  }
+}
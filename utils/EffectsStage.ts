@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DelayDivision, EffectsParam, EffectsSettings, IsolatorBand } from '../types';
+import { ccToRange } from './midiMapping';
+
+export interface EffectsParamSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const EFFECTS_PARAMS: Record<EffectsParam, EffectsParamSpec> = {
+  low: { label: 'Low', min: 0, max: 1.5, step: 0.01 },
+  mid: { label: 'Mid', min: 0, max: 1.5, step: 0.01 },
+  high: { label: 'High', min: 0, max: 1.5, step: 0.01 },
+  filter: { label: 'Filter', min: -1, max: 1, step: 0.01 },
+  delaySend: { label: 'Delay', min: 0, max: 1, step: 0.01 },
+  delayFeedback: { label: 'Feedback', min: 0, max: 0.9, step: 0.01 },
+  reverbSend: { label: 'Reverb', min: 0, max: 1, step: 0.01 },
+};
+
+export const DELAY_DIVISIONS: Record<DelayDivision, number> = {
+  '1/16': 0.25,
+  '1/8': 0.5,
+  '1/8d': 0.75,
+  '1/4': 1,
+  '1/4d': 1.5,
+  '1/2': 2,
+  '1': 4,
+};
+
+export const DEFAULT_EFFECTS_SETTINGS: EffectsSettings = {
+  low: 1,
+  mid: 1,
+  high: 1,
+  lowKill: false,
+  midKill: false,
+  highKill: false,
+  filter: 0,
+  delaySend: 0,
+  delayFeedback: 0.4,
+  delayDivision: '1/8d',
+  reverbSend: 0,
+};
+
+/** Maps a CC value, 0-127, onto the range of an effects param. */
+export function ccToEffectsValue(param: EffectsParam, value: number) {
+  return ccToRange(EFFECTS_PARAMS[param], value, { snapCentre: true });
+}
+
+const LOW_CROSSOVER_HZ = 250;
+const HIGH_CROSSOVER_HZ = 4000;
+/** The filter is left open while the knob is this close to centre. */
+const FILTER_DEAD_ZONE = 0.02;
+/** Where each side of the filter sits when open, and where a full sweep takes it. */
+const LOWPASS_OPEN_HZ = 20000;
+const LOWPASS_CLOSED_HZ = 60;
+const HIGHPASS_OPEN_HZ = 10;
+const HIGHPASS_CLOSED_HZ = 8000;
+const FILTER_Q = 1.2;
+const MAX_DELAY_SECONDS = 4;
+const REVERB_SECONDS = 2.5;
+/** Fast enough for a kill to feel instant, slow enough not to click. */
+const SMOOTHING = 0.005;
+
+/** A pair of cascaded 12 dB/octave filters, 24 dB/octave in all. */
+function createCrossover(context: AudioContext, type: BiquadFilterType, frequency: number) {
+  const first = new BiquadFilterNode(context, { type, frequency, Q: Math.SQRT1_2 });
+  const second = new BiquadFilterNode(context, { type, frequency, Q: Math.SQRT1_2 });
+  first.connect(second);
+  return { input: first, output: second };
+}
+
+/** Decaying stereo noise, a passable room for the convolver. */
+function createImpulse(context: AudioContext, seconds: number) {
+  const length = Math.round(seconds * context.sampleRate);
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let c = 0; c < 2; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+    }
+  }
+  return impulse;
+}
+
+/**
+ * Performance effects for the live stream: a three-band isolator with kills,
+ * a bipolar low/high-pass filter, and delay and reverb sends. Changes land
+ * immediately, unlike prompt changes which take seconds to be heard.
+ */
+export class EffectsStage {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private readonly context: AudioContext;
+  private readonly bands: Record<IsolatorBand, GainNode>;
+  private readonly lowpass: BiquadFilterNode;
+  private readonly highpass: BiquadFilterNode;
+  private readonly delaySend: GainNode;
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+  private readonly reverbSend: GainNode;
+  private effectsSettings = DEFAULT_EFFECTS_SETTINGS;
+  private tempo = 120;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    // isolator: split into three bands and sum them back
+    const sum = context.createGain();
+    const low = createCrossover(context, 'lowpass', LOW_CROSSOVER_HZ);
+    const midLow = createCrossover(context, 'highpass', LOW_CROSSOVER_HZ);
+    const midHigh = createCrossover(context, 'lowpass', HIGH_CROSSOVER_HZ);
+    const high = createCrossover(context, 'highpass', HIGH_CROSSOVER_HZ);
+    midLow.output.connect(midHigh.input);
+    this.bands = {
+      low: context.createGain(),
+      mid: context.createGain(),
+      high: context.createGain(),
+    };
+    this.input.connect(low.input);
+    this.input.connect(midLow.input);
+    this.input.connect(high.input);
+    low.output.connect(this.bands.low);
+    midHigh.output.connect(this.bands.mid);
+    high.output.connect(this.bands.high);
+    Object.values(this.bands).forEach((band) => band.connect(sum));
+
+    this.lowpass = new BiquadFilterNode(context, { type: 'lowpass', frequency: LOWPASS_OPEN_HZ, Q: FILTER_Q });
+    this.highpass = new BiquadFilterNode(context, { type: 'highpass', frequency: HIGHPASS_OPEN_HZ, Q: FILTER_Q });
+    sum.connect(this.lowpass);
+    this.lowpass.connect(this.highpass);
+    this.highpass.connect(this.output);
+
+    // sends tap after the filter so sweeps carry into the tails
+    this.delaySend = context.createGain();
+    this.delay = context.createDelay(MAX_DELAY_SECONDS);
+    this.feedback = context.createGain();
+    this.highpass.connect(this.delaySend);
+    this.delaySend.connect(this.delay);
+    this.delay.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.delay.connect(this.output);
+
+    this.reverbSend = context.createGain();
+    const reverb = new ConvolverNode(context, { buffer: createImpulse(context, REVERB_SECONDS) });
+    this.highpass.connect(this.reverbSend);
+    this.reverbSend.connect(reverb);
+    reverb.connect(this.output);
+
+    this.setSettings(this.effectsSettings);
+  }
+
+  get settings() {
+    return this.effectsSettings;
+  }
+
+  /** Tempo the delay time follows. */
+  get bpm() {
+    return this.tempo;
+  }
+
+  set bpm(bpm: number) {
+    this.tempo = bpm;
+    this.applyDelayTime();
+  }
+
+  private set(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.context.currentTime, SMOOTHING);
+  }
+
+  private applyDelayTime() {
+    const beats = DELAY_DIVISIONS[this.effectsSettings.delayDivision];
+    this.set(this.delay.delayTime, Math.min(MAX_DELAY_SECONDS, (beats * 60) / this.tempo));
+  }
+
+  setSettings(settings: EffectsSettings) {
+    this.effectsSettings = settings;
+    this.set(this.bands.low.gain, settings.lowKill ? 0 : settings.low);
+    this.set(this.bands.mid.gain, settings.midKill ? 0 : settings.mid);
+    this.set(this.bands.high.gain, settings.highKill ? 0 : settings.high);
+
+    const { filter } = settings;
+    const sweep = Math.max(0, (Math.abs(filter) - FILTER_DEAD_ZONE) / (1 - FILTER_DEAD_ZONE));
+    // sweep exponentially so the knob feels even across the octaves
+    const lowpass = filter < 0 ? LOWPASS_OPEN_HZ * Math.pow(LOWPASS_CLOSED_HZ / LOWPASS_OPEN_HZ, sweep) : LOWPASS_OPEN_HZ;
+    const highpass = filter > 0 ? HIGHPASS_OPEN_HZ * Math.pow(HIGHPASS_CLOSED_HZ / HIGHPASS_OPEN_HZ, sweep) : HIGHPASS_OPEN_HZ;
+    this.set(this.lowpass.frequency, lowpass);
+    this.set(this.highpass.frequency, highpass);
+
+    this.set(this.delaySend.gain, settings.delaySend);
+    this.set(this.feedback.gain, settings.delayFeedback);
+    this.set(this.reverbSend.gain, settings.reverbSend);
+    this.applyDelayTime();
+  }
+}
@@ -2,26 +2,39 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { PlaybackState, Prompt } from '../types';
-import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
-import { throttle } from './throttle';
+import type { GenerationConfig, PlaybackState, Prompt } from '../types';
+import type { AudioChunk, LiveMusicFilteredPrompt, LiveMusicServerMessage } from '@google/genai';
+import type { MusicBackend, MusicSession } from './MusicBackend';
+import { PcmDecoder } from './PcmDecoder';
+import { coalesce } from './throttle';
+import { DEFAULT_GENERATION_CONFIG, needsContextReset, toLiveMusicGenerationConfig } from './generationConfig';
+import { ReconnectSupervisor } from './ReconnectSupervisor';
+import type { ReconnectAttempt } from './ReconnectSupervisor';
+import { Looper } from './Looper';
+import { StreamPlayer } from './StreamPlayer';
+import type { BufferLevel, StreamPlayerState } from './StreamPlayer';
 
 export class LiveMusicHelper extends EventTarget {
 
-  private ai: GoogleGenAI;
-  private model: string;
+  private backend: MusicBackend;
 
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+  private session: MusicSession | null = null;
+  private sessionPromise: Promise<MusicSession> | null = null;
 
   private connectionError = true;
+  // bumped on every connect so callbacks from abandoned sockets can be ignored
+  private connectionId = 0;
+  private readonly reconnectSupervisor: ReconnectSupervisor;
 
   private filteredPrompts = new Set<string>();
-  private nextStartTime = 0;
-  private bufferTime = 2;
+  private readonly decoder = new PcmDecoder();
+  private readonly player: StreamPlayer;
+  /** Loops the last few beats heard while the session keeps generating. */
+  public readonly looper: Looper;
 
   public readonly audioContext: AudioContext;
+  /** Where the output is mixed, the context's destination unless rerouted. */
+  public destination: AudioNode;
   public extraDestination: AudioNode | null = null;
 
   private outputNode: GainNode;
@@ -29,80 +42,152 @@ export class LiveMusicHelper extends EventTarget {
 
   private prompts: Map<string, Prompt>;
 
-  constructor(ai: GoogleGenAI, model: string) {
+  private config: GenerationConfig = DEFAULT_GENERATION_CONFIG;
+  // the config the current session was last given, null if it hasn't been sent one
+  private sentConfig: GenerationConfig | null = null;
+
+  /** Pass `audioContext` to mix several sessions in one graph, as the DJ decks do. */
+  constructor(backend: MusicBackend, audioContext = new AudioContext({ sampleRate: 48000 })) {
     super();
-    this.ai = ai;
-    this.model = model;
+    this.backend = backend;
     this.prompts = new Map();
-    this.audioContext = new AudioContext({ sampleRate: 48000 });
+    this.audioContext = audioContext;
+    this.destination = this.audioContext.destination;
     this.outputNode = this.audioContext.createGain();
+
+    this.player = new StreamPlayer(this.audioContext);
+    this.looper = new Looper(this.audioContext, () => this.player.playhead);
+    this.player.output.connect(this.looper.input);
+    this.looper.output.connect(this.outputNode);
+    this.player.addEventListener('state-changed', ((e: Event) => {
+      const customEvent = e as CustomEvent<StreamPlayerState>;
+      const playerState = customEvent.detail;
+      if (playerState === 'playing' && this.playbackState === 'loading') {
+        this.setPlaybackState('playing');
+      } else if (playerState === 'starved' && this.playbackState === 'playing') {
+        this.setPlaybackState('loading');
+      }
+    }));
+    this.player.addEventListener('buffer-level', ((e: Event) => {
+      const customEvent = e as CustomEvent<BufferLevel>;
+      this.dispatchEvent(new CustomEvent<BufferLevel>('buffer-level', { detail: customEvent.detail }));
+    }));
+
+    this.reconnectSupervisor = new ReconnectSupervisor(() => this.resume());
+    this.reconnectSupervisor.addEventListener('reconnecting', ((e: Event) => {
+      const customEvent = e as CustomEvent<ReconnectAttempt>;
+      this.dispatchEvent(new CustomEvent<ReconnectAttempt>('reconnecting', { detail: customEvent.detail }));
+    }));
+    this.reconnectSupervisor.addEventListener('reconnected', () => {
+      this.dispatchEvent(new CustomEvent('reconnected'));
+    });
+    this.reconnectSupervisor.addEventListener('gave-up', () => {
+      this.stop();
+      this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
+    });
   }
 
-  private getSession(): Promise<LiveMusicSession> {
+  private getSession(): Promise<MusicSession> {
     if (!this.sessionPromise) this.sessionPromise = this.connect();
     return this.sessionPromise;
   }
 
-  private async connect(): Promise<LiveMusicSession> {
-    this.sessionPromise = this.ai.live.music.connect({
-      model: this.model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
-            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
-          }
-          if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
-          }
-        },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
+  private async connect(): Promise<MusicSession> {
+    const connectionId = ++this.connectionId;
+    const isStale = () => connectionId !== this.connectionId;
+    this.sessionPromise = this.backend.connect({
+      onmessage: async (e: LiveMusicServerMessage) => {
+        if (isStale()) return;
+        if (e.setupComplete) {
+          this.connectionError = false;
+        }
+        if (e.filteredPrompt) {
+          this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
+          this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
+        }
+        if (e.serverContent?.audioChunks) {
+          await this.processAudioChunks(e.serverContent.audioChunks);
+        }
+      },
+      onerror: () => {
+        if (isStale()) return;
+        this.handleConnectionLost();
+      },
+      onclose: () => {
+        if (isStale()) return;
+        this.handleConnectionLost();
       },
     });
     return this.sessionPromise;
   }
 
+  private handleConnectionLost() {
+    this.connectionError = true;
+    this.connectionId++;
+    this.session = null;
+    this.sessionPromise = null;
+    this.sentConfig = null;
+    // whatever is still buffered keeps playing while we reconnect
+    // a paused set just reconnects on the next play()
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
+    this.setPlaybackState('reconnecting');
+    this.reconnectSupervisor.schedule();
+  }
+
+  /**
+   * Opens a fresh session and replays the prompts and config into it. Each
+   * attempt connects anew, so one the supervisor timed out can't hold up the
+   * next; should it connect after all, its session is closed.
+   */
+  private async resume() {
+    this.sessionPromise = null;
+    const sessionPromise = this.getSession();
+    try {
+      const session = await sessionPromise;
+      // stopped or paused while we were connecting, or overtaken by a later attempt
+      if (this.playbackState !== 'reconnecting' || sessionPromise !== this.sessionPromise) {
+        session.close();
+        return;
+      }
+      this.session = session;
+      await this.sendWeightedPrompts();
+      await this.sendMusicGenerationConfig();
+      this.session.play();
+      // if the buffer outlasted the outage there is no gap to wait for
+      this.setPlaybackState(this.player.state === 'playing' ? 'playing' : 'loading');
+    } catch (e) {
+      if (sessionPromise === this.sessionPromise) {
+        this.session = null;
+        this.sessionPromise = null;
+      }
+      throw e;
+    }
+  }
+
   private setPlaybackState(state: PlaybackState) {
+    if (state === 'playing') this.reconnectSupervisor.reset();
     this.playbackState = state;
     this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
   }
 
+  private get isIdle() {
+    return this.playbackState === 'paused' || this.playbackState === 'stopped';
+  }
+
   private async processAudioChunks(audioChunks: AudioChunk[]) {
-    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
-      this.audioContext,
-      48000,
-      2,
-    );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
+    if (this.isIdle) return;
+    // decoding happens off the main thread; kick off every chunk before awaiting any
+    const decoded = audioChunks
+      .filter((chunk) => chunk.data)
+      .map((chunk) => this.decoder.decode(chunk.data!, 2));
+    for (const channels of decoded) {
+      const result = await channels;
+      // paused or stopped while the worker was busy
+      if (this.isIdle) return;
+      // push transfers the arrays, so the looper takes its copy first
+      this.looper.record(result);
+      await this.player.push(result);
     }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
-      return;
-    }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
   }
 
   public get activePrompts() {
@@ -112,7 +197,8 @@ export class LiveMusicHelper extends EventTarget {
       })
   }
 
-  public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>) => {
+  /** Unthrottled; rapid updates should go through `PromptAutomation`. */
+  public async setWeightedPrompts(prompts: Map<string, Prompt>) {
     this.prompts = prompts;
 
     if (this.activePrompts.length === 0) {
@@ -126,44 +212,101 @@ export class LiveMusicHelper extends EventTarget {
     if (!this.session) return;
 
     try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts: this.activePrompts,
-      });
+      await this.sendWeightedPrompts();
     } catch (e: any) {
-      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
-      this.pause();
+      this.handleSendError(e);
+    }
+  }
+
+  private handleSendError(e: any) {
+    this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    this.pause();
+  }
+
+  private async sendWeightedPrompts() {
+    if (!this.session) return;
+    await this.session.setWeightedPrompts({
+      weightedPrompts: this.activePrompts,
+    });
+  }
+
+  /**
+   * Takes effect at once for play() and reconnects; the send to a live session
+   * is coalesced, as each one may reset the context.
+   */
+  public setMusicGenerationConfig(config: GenerationConfig) {
+    this.config = config;
+    this.sendMusicGenerationConfigSoon();
+  }
+
+  private readonly sendMusicGenerationConfigSoon = coalesce(async () => {
+    // sent on play() if we haven't connected yet
+    if (!this.session) return;
+
+    try {
+      await this.sendMusicGenerationConfig();
+    } catch (e: any) {
+      this.handleSendError(e);
     }
   }, 200);
 
+  private async sendMusicGenerationConfig() {
+    if (!this.session) return;
+    const config = this.config;
+    const resetContext = this.sentConfig !== null && needsContextReset(this.sentConfig, config);
+    await this.session.setMusicGenerationConfig({
+      musicGenerationConfig: toLiveMusicGenerationConfig(config),
+    });
+    this.sentConfig = config;
+    if (resetContext) {
+      this.session.resetContext();
+      this.dispatchEvent(new CustomEvent<GenerationConfig>('context-reset', { detail: config }));
+    }
+  }
+
   public async play() {
     this.setPlaybackState('loading');
-    this.session = await this.getSession();
+    try {
+      this.session = await this.getSession();
+    } catch {
+      // the socket failed to open; retry as for a dropped connection
+      this.handleConnectionLost();
+      return;
+    }
     await this.setWeightedPrompts(this.prompts);
+    if (this.sentConfig !== this.config) {
+      await this.sendMusicGenerationConfig().catch((e) => this.handleSendError(e));
+    }
     this.audioContext.resume();
     this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
+    this.outputNode.connect(this.destination);
     if (this.extraDestination) this.outputNode.connect(this.extraDestination);
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
   }
 
   public pause() {
+    this.reconnectSupervisor.cancel();
     if (this.session) this.session.pause();
     this.setPlaybackState('paused');
     this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
-    this.outputNode = this.audioContext.createGain();
+    this.player.flush();
+    this.looper.reset();
   }
 
   public stop() {
+    this.reconnectSupervisor.cancel();
     if (this.session) this.session.stop();
     this.setPlaybackState('stopped');
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
+    this.player.flush();
+    this.looper.reset();
+    this.connectionId++;
     this.session = null;
     this.sessionPromise = null;
+    this.sentConfig = null;
   }
 
   public async playPause() {
@@ -174,6 +317,7 @@ export class LiveMusicHelper extends EventTarget {
       case 'stopped':
         return this.play();
       case 'loading':
+      case 'reconnecting':
         return this.stop();
     }
   }
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveMusicServerMessage, Scale } from '@google/genai';
+import type {
+  LiveMusicCallbacks,
+  LiveMusicGenerationConfig,
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+  WeightedPrompt,
+} from '@google/genai';
+import type { MusicBackend, MusicSession } from './MusicBackend';
+import { encode } from './audio';
+
+export interface LocalMusicBackendOptions {
+  /** Prompts containing any of these words are reported as filtered. */
+  filteredWords: string[];
+  /** Drops the connection this long after connecting, to exercise reconnects. */
+  disconnectAfterMs: number | null;
+}
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+/** Length of each generated chunk, roughly what Lyria sends. */
+const CHUNK_SECONDS = 1;
+/** How far ahead of real time the stand-in generates, so playback can buffer. */
+const LEAD_CHUNKS = 2;
+/** Only the loudest prompts get a voice, to keep synthesis cheap. */
+const MAX_VOICES = 4;
+
+const SCALE_ROOTS: Partial<Record<Scale, number>> = {
+  [Scale.C_MAJOR_A_MINOR]: 0,
+  [Scale.D_FLAT_MAJOR_B_FLAT_MINOR]: 1,
+  [Scale.D_MAJOR_B_MINOR]: 2,
+  [Scale.E_FLAT_MAJOR_C_MINOR]: 3,
+  [Scale.E_MAJOR_D_FLAT_MINOR]: 4,
+  [Scale.F_MAJOR_D_MINOR]: 5,
+  [Scale.G_FLAT_MAJOR_E_FLAT_MINOR]: 6,
+  [Scale.G_MAJOR_E_MINOR]: 7,
+  [Scale.A_FLAT_MAJOR_F_MINOR]: 8,
+  [Scale.A_MAJOR_G_FLAT_MINOR]: 9,
+  [Scale.B_FLAT_MAJOR_G_MINOR]: 10,
+  [Scale.B_MAJOR_A_FLAT_MINOR]: 11,
+};
+
+/** I–V–vi–IV, in semitones above the root. */
+const PROGRESSION = [0, 7, 9, 5];
+
+/** Sound character derived from a prompt's text, so the same text always sounds the same. */
+interface Timbre {
+  interval: number;
+  harmonics: number;
+  tempo: number;
+  drive: number;
+  pan: number;
+}
+
+interface Voice {
+  text: string;
+  weight: number;
+  timbre: Timbre;
+  phase: number;
+}
+
+/** FNV-1a, good enough to spread prompt texts over the timbre space. */
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32 */
+function createRandom(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function timbreFor(text: string): Timbre {
+  const random = createRandom(hash(text.toLowerCase()));
+  return {
+    interval: [0, 4, 7, 12, -5][Math.floor(random() * 5)],
+    harmonics: 1 + Math.floor(random() * 6),
+    tempo: 80 + Math.round(random() * 80),
+    drive: random(),
+    pan: random() * 1.2 - 0.6,
+  };
+}
+
+/** A procedural stand-in for a Lyria session that runs entirely in the browser. */
+class LocalMusicSession implements MusicSession {
+  private readonly callbacks: LiveMusicCallbacks;
+  private readonly options: LocalMusicBackendOptions;
+
+  private voices: Voice[] = [];
+  private config: LiveMusicGenerationConfig = {};
+  private reportedFilteredPrompts = new Set<string>();
+
+  private interval: number | null = null;
+  private disconnectTimeout: number | null = null;
+  private closed = false;
+
+  // synthesis state, carried across chunks so there are no clicks at the seams
+  private beatPhase = 0;
+  private kickPhase = 0;
+  private random = createRandom(Date.now());
+
+  constructor(callbacks: LiveMusicCallbacks, options: LocalMusicBackendOptions) {
+    this.callbacks = callbacks;
+    this.options = options;
+    if (options.disconnectAfterMs !== null) {
+      this.disconnectTimeout = window.setTimeout(() => {
+        this.close();
+        this.callbacks.onclose?.(new CloseEvent('close', { code: 1006, reason: 'Simulated disconnect' }));
+      }, options.disconnectAfterMs);
+    }
+    // Lyria acknowledges the setup before anything else
+    setTimeout(() => this.send({ setupComplete: {} }));
+  }
+
+  async setWeightedPrompts({ weightedPrompts }: LiveMusicSetWeightedPromptsParameters) {
+    const voices: Voice[] = [];
+    for (const prompt of weightedPrompts) {
+      if (this.isFiltered(prompt)) continue;
+      const text = prompt.text!;
+      const previous = this.voices.find((v) => v.text === text);
+      voices.push({
+        text,
+        weight: prompt.weight ?? 0,
+        timbre: previous?.timbre ?? timbreFor(text),
+        phase: previous?.phase ?? 0,
+      });
+    }
+    this.voices = voices
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_VOICES);
+  }
+
+  async setMusicGenerationConfig({ musicGenerationConfig }: LiveMusicSetConfigParameters) {
+    this.config = musicGenerationConfig ?? {};
+    if (this.config.seed !== undefined) this.random = createRandom(this.config.seed);
+  }
+
+  play() {
+    if (this.closed || this.interval !== null) return;
+    for (let i = 0; i < LEAD_CHUNKS; i++) this.generateChunk();
+    this.interval = window.setInterval(() => this.generateChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  pause() {
+    if (this.interval !== null) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  stop() {
+    this.pause();
+    this.resetContext();
+  }
+
+  resetContext() {
+    this.beatPhase = 0;
+    this.kickPhase = 0;
+  }
+
+  close() {
+    this.closed = true;
+    this.pause();
+    if (this.disconnectTimeout !== null) clearTimeout(this.disconnectTimeout);
+  }
+
+  private send(message: Partial<LiveMusicServerMessage>) {
+    if (this.closed) return;
+    this.callbacks.onmessage(Object.assign(new LiveMusicServerMessage(), message));
+  }
+
+  private isFiltered(prompt: WeightedPrompt) {
+    const text = prompt.text ?? '';
+    const lower = text.toLowerCase();
+    const word = this.options.filteredWords.find((w) => lower.includes(w.toLowerCase()));
+    if (!word) return false;
+    if (!this.reportedFilteredPrompts.has(text)) {
+      this.reportedFilteredPrompts.add(text);
+      this.send({ filteredPrompt: { text, filteredReason: `"${text}" was filtered (simulated: contains "${word}").` } });
+    }
+    return true;
+  }
+
+  private generateChunk() {
+    const frames = SAMPLE_RATE * CHUNK_SECONDS;
+    const pcm = new Int16Array(frames * NUM_CHANNELS);
+    const totalWeight = this.voices.reduce((sum, v) => sum + v.weight, 0);
+
+    if (totalWeight > 0) {
+      const mix = (pick: (t: Timbre) => number) =>
+        this.voices.reduce((sum, v) => sum + pick(v.timbre) * v.weight, 0) / totalWeight;
+
+      const bpm = this.config.bpm ?? mix((t) => t.tempo);
+      const drive = mix((t) => t.drive);
+      const brightness = this.config.brightness ?? 0.5;
+      const density = this.config.density ?? 0.5;
+      const temperature = this.config.temperature ?? 1.1;
+      const root = 48 + (SCALE_ROOTS[this.config.scale ?? Scale.SCALE_UNSPECIFIED] ?? 0);
+      const beatsPerSample = bpm / 60 / SAMPLE_RATE;
+      const gains = this.voices.map((v) => (v.weight / totalWeight) * 0.25);
+      const pans = this.voices.map((v) => v.timbre.pan);
+
+      for (let i = 0; i < frames; i++) {
+        const beat = this.beatPhase;
+        const beatFraction = beat % 1;
+        const chord = PROGRESSION[Math.floor(beat / 4) % PROGRESSION.length];
+
+        let left = 0;
+        let right = 0;
+        for (let v = 0; v < this.voices.length; v++) {
+          const voice = this.voices[v];
+          const note = root + chord + voice.timbre.interval;
+          const freq = 440 * Math.pow(2, (note - 69) / 12);
+          voice.phase = (voice.phase + freq / SAMPLE_RATE) % 1;
+          const harmonics = Math.max(1, Math.round(voice.timbre.harmonics * (0.5 + brightness)));
+          let sample = 0;
+          for (let h = 1; h <= harmonics; h++) {
+            sample += Math.sin(2 * Math.PI * voice.phase * h) / h;
+          }
+          sample *= gains[v];
+          left += sample * (1 - pans[v]) * 0.5;
+          right += sample * (1 + pans[v]) * 0.5;
+        }
+
+        // kick on every beat, with a falling pitch
+        const kickEnv = Math.exp(-beatFraction * 12);
+        this.kickPhase = (this.kickPhase + (45 + 90 * kickEnv) / SAMPLE_RATE) % 1;
+        const kick = Math.sin(2 * Math.PI * this.kickPhase) * kickEnv * 0.5 * drive;
+
+        // noise hats on the offbeats, busier with density and looser with temperature
+        const hatFraction = (beatFraction * 2) % 1;
+        const hatEnv = Math.exp(-hatFraction * (60 - 20 * density));
+        const jitter = 1 + (this.random() - 0.5) * 0.2 * temperature;
+        const hat = (this.random() * 2 - 1) * hatEnv * 0.08 * density * jitter;
+
+        left += kick + hat;
+        right += kick + hat;
+
+        pcm[i * 2] = Math.max(-1, Math.min(1, left)) * 0x7fff;
+        pcm[i * 2 + 1] = Math.max(-1, Math.min(1, right)) * 0x7fff;
+        this.beatPhase += beatsPerSample;
+      }
+    }
+
+    this.send({
+      serverContent: {
+        audioChunks: [{
+          data: encode(new Uint8Array(pcm.buffer)),
+          mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${NUM_CHANNELS}`,
+        }],
+      },
+    });
+  }
+}
+
+/**
+ * Synthesizes music locally so the app can be developed and demoed without
+ * network access or an API key. Timbre and tempo follow the prompt weights.
+ */
+export class LocalMusicBackend implements MusicBackend {
+  readonly name = 'local';
+
+  private readonly options: LocalMusicBackendOptions;
+
+  constructor(options: Partial<LocalMusicBackendOptions> = {}) {
+    this.options = {
+      filteredWords: [],
+      disconnectAfterMs: null,
+      ...options,
+    };
+  }
+
+  async connect(callbacks: LiveMusicCallbacks): Promise<MusicSession> {
+    return new LocalMusicSession(callbacks, this.options);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Looper } from './Looper';
+
+/** Low enough that the history is 20000 frames and the wrap crossfade 10. */
+const SAMPLE_RATE = 1000;
+const CAPACITY = 20 * SAMPLE_RATE;
+const CROSSFADE = 10;
+
+function fakeParam() {
+  return {
+    value: 1,
+    cancelScheduledValues: () => {},
+    setValueAtTime: () => {},
+    linearRampToValueAtTime: () => {},
+  };
+}
+
+function fakeGain() {
+  return { gain: fakeParam(), connect: () => {}, disconnect: () => {} };
+}
+
+function fakeBuffer(channels: number, length: number) {
+  const data = Array.from({ length: channels }, () => new Float32Array(length));
+  return { length, getChannelData: (c: number) => data[c] };
+}
+
+/** The sources the looper starts, with the buffer and offset each started from. */
+let sources: Array<{ buffer: ReturnType<typeof fakeBuffer>; offset: number }>;
+
+class FakeSourceNode {
+  readonly buffer: ReturnType<typeof fakeBuffer>;
+  onended: (() => void) | null = null;
+  constructor(_: unknown, { buffer }: { buffer: ReturnType<typeof fakeBuffer> }) {
+    this.buffer = buffer;
+  }
+  connect() {}
+  start(_: number, offset: number) {
+    sources.push({ buffer: this.buffer, offset });
+  }
+  stop() {}
+}
+
+function createLooper() {
+  const context = {
+    sampleRate: SAMPLE_RATE,
+    currentTime: 0,
+    createGain: fakeGain,
+    createBuffer: fakeBuffer,
+  };
+  let playhead = 0;
+  const looper = new Looper(context as unknown as AudioContext, () => playhead);
+  const errors: string[] = [];
+  looper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+  /** Records `frames` frames, each holding its own frame number, and hears them all. */
+  const play = (frames: number) => {
+    const channel = new Float32Array(frames).map((_, i) => playhead + i);
+    looper.record([channel]);
+    playhead += frames;
+  };
+  return { looper, errors, play };
+}
+
+describe('Looper.capture', () => {
+  beforeEach(() => {
+    sources = [];
+    vi.stubGlobal('AudioBufferSourceNode', FakeSourceNode);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('loops the last beats heard, ending now', () => {
+    const { looper, play } = createLooper();
+    play(5000);
+    // a beat at 60 BPM is 1000 frames
+    looper.capture(1, 60);
+    const [{ buffer, offset }] = sources;
+    expect(buffer.length).toBe(1000);
+    expect(buffer.getChannelData(0)[0]).toBe(4000);
+    expect(buffer.getChannelData(1)[999 - CROSSFADE]).toBe(4999 - CROSSFADE);
+    expect(offset).toBe(0);
+    expect(looper.beats).toBe(1);
+  });
+
+  it('reads across the wrap at the end of the history', () => {
+    const { looper, play } = createLooper();
+    play(CAPACITY + 500);
+    looper.capture(1, 60);
+    const data = sources[0].buffer.getChannelData(0);
+    const start = CAPACITY - 500;
+    for (let i = 0; i < 1000 - CROSSFADE; i++) expect(data[i]).toBe(start + i);
+  });
+
+  it('fades the tail into what led up to the start', () => {
+    const { looper, play } = createLooper();
+    play(CAPACITY + 500);
+    looper.capture(1, 60);
+    const data = sources[0].buffer.getChannelData(0);
+    const start = CAPACITY - 500;
+    for (let i = 0; i < CROSSFADE; i++) {
+      const t = (i + 1) / CROSSFADE;
+      const tail = start + 1000 - CROSSFADE + i;
+      const lead = start - CROSSFADE + i;
+      expect(data[1000 - CROSSFADE + i]).toBeCloseTo(tail * (1 - t) + lead * t, 2);
+    }
+    // the last frame is the one just before the start, so the wrap carries straight on
+    expect(data[999]).toBe(start - 1);
+  });
+
+  it('refuses a loop longer than what has played', () => {
+    const { looper, errors, play } = createLooper();
+    play(999);
+    looper.capture(1, 60);
+    expect(errors).toEqual(['Not enough has played yet to loop 1 beats.']);
+    expect(sources).toEqual([]);
+    expect(looper.beats).toBeNull();
+  });
+
+  it('refuses a loop reaching past the oldest audio kept', () => {
+    const { looper, errors, play } = createLooper();
+    play(CAPACITY + 5000);
+    // 8 beats at 20 BPM is 24 seconds, more than the history holds
+    looper.capture(8, 20);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('loops everything kept when the loop is exactly the history', () => {
+    const { looper, errors, play } = createLooper();
+    play(CAPACITY + 5000);
+    // 10 beats at 30 BPM is the full 20 seconds
+    looper.capture(10, 30);
+    expect(errors).toEqual([]);
+    expect(sources[0].buffer.getChannelData(0)[0]).toBe(5000);
+  });
+
+  it('ends on the last beat and starts in phase with it', () => {
+    const { looper, play } = createLooper();
+    play(5000);
+    vi.spyOn(performance, 'now').mockReturnValue(10000);
+    // the beat fell a quarter of a second, 250 frames, ago
+    looper.capture(1, 60, 9750);
+    const [{ buffer, offset }] = sources;
+    expect(buffer.getChannelData(0)[0]).toBe(3750);
+    expect(offset).toBe(0.25);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const LOOP_LENGTHS = [1, 2, 4, 8] as const;
+
+/** How much decoded audio is kept to capture from, enough for 8 beats at 30 BPM. */
+const HISTORY_SECONDS = 20;
+/** Blends the end of the loop into what came before its start so the wrap doesn't click. */
+const LOOP_CROSSFADE_SECONDS = 0.01;
+const CAPTURE_FADE_SECONDS = 0.01;
+const RELEASE_FADE_SECONDS = 0.25;
+
+interface Voice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * Freezes the last few beats of the stream and loops them while the session
+ * keeps generating underneath, then crossfades back to the live stream on
+ * release. Sits between the stream player and the session output; the decoded
+ * audio is handed to `record` before it is queued so there is always a rolling
+ * history to capture from.
+ *
+ * Dispatches `loop-changed` with the looped length in beats, or null when
+ * released, and `error` with a message when a capture isn't possible.
+ */
+export class Looper extends EventTarget {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private readonly context: AudioContext;
+  /** Frames of everything recorded since the last reset that are being heard now. */
+  private readonly getPlayhead: () => number;
+  private readonly history: [Float32Array, Float32Array];
+  /** Frames recorded since the last reset; frame `f` lives at `f % capacity`. */
+  private written = 0;
+  private voice: Voice | null = null;
+  private loopBeats: number | null = null;
+
+  constructor(context: AudioContext, getPlayhead: () => number) {
+    super();
+    this.context = context;
+    this.getPlayhead = getPlayhead;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.input.connect(this.output);
+    const capacity = HISTORY_SECONDS * context.sampleRate;
+    this.history = [new Float32Array(capacity), new Float32Array(capacity)];
+  }
+
+  /** The looped length in beats, null while the live stream is heard. */
+  get beats() {
+    return this.loopBeats;
+  }
+
+  private get capacity() {
+    return this.history[0].length;
+  }
+
+  /** Appends decoded planar audio. Copies, so the arrays can be transferred afterwards. */
+  record(channels: Float32Array[]) {
+    const frames = channels[0].length;
+    for (let c = 0; c < 2; c++) {
+      const source = channels[Math.min(c, channels.length - 1)];
+      for (let i = 0; i < frames; i++) {
+        this.history[c][(this.written + i) % this.capacity] = source[i];
+      }
+    }
+    this.written += frames;
+  }
+
+  /**
+   * Loops the last `beats` beats heard at `bpm`. With `lastBeatTime`, in
+   * `performance.now()` time, the loop ends on that beat and starts playing
+   * in phase with it; otherwise it ends now.
+   */
+  capture(beats: number, bpm: number, lastBeatTime: number | null = null) {
+    const { sampleRate } = this.context;
+    const playhead = Math.min(this.getPlayhead(), this.written);
+    const sinceBeat = lastBeatTime === null
+      ? 0
+      : Math.max(0, Math.round(((performance.now() - lastBeatTime) / 1000) * sampleRate));
+    const end = playhead - sinceBeat;
+    const length = Math.round(((beats * 60) / bpm) * sampleRate);
+    const start = end - length;
+    const oldest = Math.max(0, this.written - this.capacity);
+    if (start < oldest) {
+      this.dispatchEvent(new CustomEvent('error', { detail: `Not enough has played yet to loop ${beats} beats.` }));
+      return;
+    }
+
+    const buffer = this.context.createBuffer(2, length, sampleRate);
+    const crossfade = Math.min(Math.round(LOOP_CROSSFADE_SECONDS * sampleRate), start - oldest, length);
+    for (let c = 0; c < 2; c++) {
+      const data = buffer.getChannelData(c);
+      const history = this.history[c];
+      for (let i = 0; i < length; i++) {
+        data[i] = history[(start + i) % this.capacity];
+      }
+      // fade the tail into the audio that led up to the start, so the wrap is continuous
+      for (let i = 0; i < crossfade; i++) {
+        const t = (i + 1) / crossfade;
+        const lead = history[(start - crossfade + i) % this.capacity];
+        data[length - crossfade + i] = data[length - crossfade + i] * (1 - t) + lead * t;
+      }
+    }
+
+    this.fadeOut(CAPTURE_FADE_SECONDS);
+    const gain = this.context.createGain();
+    gain.gain.value = 0;
+    gain.connect(this.output);
+    const source = new AudioBufferSourceNode(this.context, { buffer, loop: true });
+    source.connect(gain);
+    source.start(0, ((playhead - end) % length) / sampleRate);
+    this.voice = { source, gain };
+    this.fade(gain.gain, 1, CAPTURE_FADE_SECONDS);
+    this.fade(this.input.gain, 0, CAPTURE_FADE_SECONDS);
+    this.setBeats(beats);
+  }
+
+  /** Crossfades back to the live stream. */
+  release() {
+    if (!this.voice) return;
+    this.fadeOut(RELEASE_FADE_SECONDS);
+    this.fade(this.input.gain, 1, RELEASE_FADE_SECONDS);
+    this.setBeats(null);
+  }
+
+  /** Drops the loop and the history, e.g. when the stream is flushed. */
+  reset() {
+    this.fadeOut(CAPTURE_FADE_SECONDS);
+    this.fade(this.input.gain, 1, CAPTURE_FADE_SECONDS);
+    this.written = 0;
+    this.setBeats(null);
+  }
+
+  private fade(param: AudioParam, value: number, seconds: number) {
+    const now = this.context.currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + seconds);
+  }
+
+  private fadeOut(seconds: number) {
+    if (!this.voice) return;
+    const { source, gain } = this.voice;
+    this.fade(gain.gain, 0, seconds);
+    source.stop(this.context.currentTime + seconds);
+    source.onended = () => gain.disconnect();
+    this.voice = null;
+  }
+
+  private setBeats(beats: number | null) {
+    if (this.loopBeats === beats) return;
+    this.loopBeats = beats;
+    this.dispatchEvent(new CustomEvent<number | null>('loop-changed', { detail: beats }));
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MasterParam, MasterSettings } from '../types';
+import { addWorkletModule } from './audio';
+import { ccToRange } from './midiMapping';
+
+export interface MasterParamSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+export const MASTER_PARAMS: Record<MasterParam, MasterParamSpec> = {
+  low: { label: 'Low', min: -12, max: 12, step: 0.5, unit: 'dB' },
+  mid: { label: 'Mid', min: -12, max: 12, step: 0.5, unit: 'dB' },
+  high: { label: 'High', min: -12, max: 12, step: 0.5, unit: 'dB' },
+  threshold: { label: 'Threshold', min: -48, max: 0, step: 1, unit: 'dB' },
+  ratio: { label: 'Ratio', min: 1, max: 20, step: 0.5, unit: ':1' },
+  ceiling: { label: 'Ceiling', min: -12, max: 0, step: 0.1, unit: 'dB' },
+  volume: { label: 'Volume', min: -60, max: 6, step: 0.5, unit: 'dB' },
+};
+
+export const DEFAULT_MASTER_SETTINGS: MasterSettings = {
+  low: 0,
+  mid: 0,
+  high: 0,
+  threshold: -18,
+  ratio: 3,
+  ceiling: -1,
+  volume: 0,
+};
+
+/** What the meters show, reported about twenty times a second. */
+export interface MasterMeter {
+  /** Gain reduction in dB, as a positive number. */
+  compressorReduction: number;
+  limiterReduction: number;
+  /** Whether the signal reached 0 dBFS before the limiter since the last report. */
+  clipping: boolean;
+}
+
+/** Maps a CC value, 0-127, onto the range of a master param. */
+export function ccToMasterValue(param: MasterParam, value: number) {
+  return ccToRange(MASTER_PARAMS[param], value);
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/** Smooths parameter moves so stepped MIDI values don't zipper. */
+const PARAM_SMOOTHING = 0.01;
+
+/**
+ * Lookahead peak limiter. The input is delayed by the lookahead so the gain
+ * has already come down by the time a peak is played, and the output is
+ * clamped to the ceiling as a final guarantee.
+ */
+const LIMITER_PROCESSOR_SOURCE = `
+const LOOKAHEAD = Math.round(0.005 * sampleRate);
+const ATTACK = 1 - Math.exp(-5 / LOOKAHEAD);
+const RELEASE = Math.exp(-1 / (0.1 * sampleRate));
+const STATUS_INTERVAL = Math.round(0.05 * sampleRate);
+
+class BrickwallLimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'ceiling', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.delay = [new Float32Array(LOOKAHEAD), new Float32Array(LOOKAHEAD)];
+    this.delayIndex = 0;
+    this.gain = 1;
+    this.holdGain = 1;
+    this.holdFrames = 0;
+    this.minGain = 1;
+    this.peak = 0;
+    this.statusFrames = 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ceiling = parameters.ceiling[0];
+    const frames = output[0].length;
+
+    for (let i = 0; i < frames; i++) {
+      const l = input[0] ? input[0][i] : 0;
+      const r = input[1] ? input[1][i] : l;
+      const peak = Math.max(Math.abs(l), Math.abs(r));
+      if (peak > this.peak) this.peak = peak;
+
+      // hold the lowest gain needed by anything still in the delay line
+      const target = peak > ceiling ? ceiling / peak : 1;
+      if (target <= this.holdGain || --this.holdFrames <= 0) {
+        this.holdGain = target;
+        this.holdFrames = LOOKAHEAD;
+      }
+      if (this.holdGain < this.gain) {
+        this.gain += (this.holdGain - this.gain) * ATTACK;
+      } else {
+        this.gain = this.holdGain + (this.gain - this.holdGain) * RELEASE;
+      }
+      if (this.gain < this.minGain) this.minGain = this.gain;
+
+      const dl = this.delay[0][this.delayIndex];
+      const dr = this.delay[1][this.delayIndex];
+      this.delay[0][this.delayIndex] = l;
+      this.delay[1][this.delayIndex] = r;
+      this.delayIndex = (this.delayIndex + 1) % LOOKAHEAD;
+
+      output[0][i] = Math.max(-ceiling, Math.min(ceiling, dl * this.gain));
+      if (output[1]) output[1][i] = Math.max(-ceiling, Math.min(ceiling, dr * this.gain));
+    }
+
+    this.statusFrames += frames;
+    if (this.statusFrames >= STATUS_INTERVAL) {
+      this.port.postMessage({ reduction: -20 * Math.log10(this.minGain), peak: this.peak });
+      this.statusFrames = 0;
+      this.minGain = this.gain;
+      this.peak = 0;
+    }
+    return true;
+  }
+}
+registerProcessor('brickwall-limiter', BrickwallLimiterProcessor);
+`;
+
+/**
+ * The master output chain everything is mixed into: a three-band EQ, a
+ * compressor, master volume and a brickwall limiter, in that order.
+ *
+ * Dispatches `meter` with a `MasterMeter` while audio is running, and
+ * `settings-changed` whenever the settings are set, by whoever sets them.
+ */
+export class MasterBus extends EventTarget {
+  readonly input: GainNode;
+  /** After the limiter, so connect the speakers and the recorder here. */
+  readonly output: GainNode;
+
+  private readonly context: AudioContext;
+  private readonly low: BiquadFilterNode;
+  private readonly mid: BiquadFilterNode;
+  private readonly high: BiquadFilterNode;
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly volume: GainNode;
+  private readonly ready: Promise<AudioWorkletNode>;
+  private masterSettings = DEFAULT_MASTER_SETTINGS;
+
+  constructor(context: AudioContext) {
+    super();
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.low = new BiquadFilterNode(context, { type: 'lowshelf', frequency: 250 });
+    this.mid = new BiquadFilterNode(context, { type: 'peaking', frequency: 1000, Q: 0.7 });
+    this.high = new BiquadFilterNode(context, { type: 'highshelf', frequency: 4000 });
+    this.compressor = new DynamicsCompressorNode(context, { knee: 6, attack: 0.01, release: 0.25 });
+    this.volume = context.createGain();
+
+    this.input.connect(this.low);
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+    this.high.connect(this.compressor);
+    this.compressor.connect(this.volume);
+    // unlimited until the worklet has loaded
+    this.volume.connect(this.output);
+
+    this.ready = this.createLimiter();
+    this.setSettings(this.masterSettings);
+  }
+
+  get settings() {
+    return this.masterSettings;
+  }
+
+  private async createLimiter() {
+    await addWorkletModule(this.context, LIMITER_PROCESSOR_SOURCE);
+    const limiter = new AudioWorkletNode(this.context, 'brickwall-limiter', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+    });
+    limiter.parameters.get('ceiling')!.value = dbToGain(this.masterSettings.ceiling);
+    limiter.port.onmessage = (e: MessageEvent) => {
+      const { reduction, peak } = e.data;
+      this.dispatchEvent(new CustomEvent<MasterMeter>('meter', {
+        detail: {
+          compressorReduction: -this.compressor.reduction,
+          limiterReduction: reduction,
+          clipping: peak >= 1,
+        },
+      }));
+    };
+    this.volume.disconnect(this.output);
+    this.volume.connect(limiter);
+    limiter.connect(this.output);
+    return limiter;
+  }
+
+  setSettings(settings: MasterSettings) {
+    this.masterSettings = settings;
+    const now = this.context.currentTime;
+    const set = (param: AudioParam, value: number) => param.setTargetAtTime(value, now, PARAM_SMOOTHING);
+    set(this.low.gain, settings.low);
+    set(this.mid.gain, settings.mid);
+    set(this.high.gain, settings.high);
+    set(this.compressor.threshold, settings.threshold);
+    set(this.compressor.ratio, settings.ratio);
+    set(this.volume.gain, dbToGain(settings.volume));
+    this.ready.then((limiter) => {
+      set(limiter.parameters.get('ceiling')!, dbToGain(settings.ceiling));
+    });
+    this.dispatchEvent(new CustomEvent<MasterSettings>('settings-changed', { detail: settings }));
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MidiDispatcher } from './MidiDispatcher';
+import type { ControlValue, NrpnMessage } from '../types';
+
+interface FakeInput {
+  id: string;
+  name: string;
+  type: 'input';
+  state: 'connected' | 'disconnected';
+  onmidimessage: ((event: { data: Uint8Array; timeStamp: number }) => void) | null;
+}
+
+interface FakeOutput {
+  id: string;
+  name: string;
+  type: 'output';
+  state: 'connected' | 'disconnected';
+  sent: number[][];
+  send: (message: number[]) => void;
+}
+
+function fakeInput(id: string, state: FakeInput['state'] = 'connected'): FakeInput {
+  return { id, name: id, type: 'input', state, onmidimessage: null };
+}
+
+/** An output that keeps what it is sent, throwing once unplugged as a real one does. */
+function fakeOutput(id: string, name = id): FakeOutput {
+  const output: FakeOutput = {
+    id,
+    name,
+    type: 'output',
+    state: 'connected',
+    sent: [],
+    send: (message) => {
+      if (output.state !== 'connected') throw new Error('InvalidStateError');
+      output.sent.push(message);
+    },
+  };
+  return output;
+}
+
+async function connect(dispatcher: MidiDispatcher, inputs: FakeInput[], outputs: FakeOutput[] = []) {
+  const access = {
+    inputs: new Map(inputs.map((input) => [input.id, input])),
+    outputs: new Map(outputs.map((output) => [output.id, output])),
+    onstatechange: null as ((event: { port: FakeInput | FakeOutput }) => void) | null,
+  };
+  vi.stubGlobal('navigator', { requestMIDIAccess: () => Promise.resolve(access) });
+  await dispatcher.getMidiAccess();
+  return access;
+}
+
+function send(input: FakeInput, ...messages: number[][]) {
+  for (const message of messages) input.onmidimessage?.({ data: new Uint8Array(message), timeStamp: 0 });
+}
+
+function record<T>(dispatcher: MidiDispatcher, type: string) {
+  const details: T[] = [];
+  dispatcher.addEventListener(type, (e) => details.push((e as CustomEvent<T>).detail));
+  return details;
+}
+
+describe('MidiDispatcher', () => {
+  let input: FakeInput;
+
+  beforeEach(() => {
+    input = fakeInput('input-1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lists only the inputs plugged in', async () => {
+    const dispatcher = new MidiDispatcher();
+    await connect(dispatcher, [input, fakeInput('input-2', 'disconnected')]);
+    expect(dispatcher.inputIds).toEqual(['input-1']);
+  });
+
+  describe('NRPN', () => {
+    it('reads the parameter and 14-bit value from their CCs', async () => {
+      const dispatcher = new MidiDispatcher();
+      await connect(dispatcher, [input]);
+      const messages = record<NrpnMessage>(dispatcher, 'nrpn-message');
+      send(input, [0xb1, 99, 2], [0xb1, 98, 5], [0xb1, 6, 64], [0xb1, 38, 3]);
+      expect(messages).toEqual([
+        { deviceId: 'input-1', channel: 1, parameter: (2 << 7) | 5, value: 64 << 7 },
+        { deviceId: 'input-1', channel: 1, parameter: (2 << 7) | 5, value: (64 << 7) | 3 },
+      ]);
+    });
+
+    it('drives the control mapped to the parameter', async () => {
+      const dispatcher = new MidiDispatcher({ 'prompt-0': { deviceId: null, channel: null, cc: 300, encoding: 'nrpn' } });
+      await connect(dispatcher, [input]);
+      const values = record<ControlValue>(dispatcher, 'control-value');
+      send(input, [0xb0, 99, 300 >> 7], [0xb0, 98, 300 & 0x7f], [0xb0, 6, 127], [0xb0, 38, 127]);
+      expect(values.at(-1)).toEqual({ controlId: 'prompt-0', type: 'absolute', value: 1 });
+    });
+
+    it('keeps each channel selecting its own parameter', async () => {
+      const dispatcher = new MidiDispatcher();
+      await connect(dispatcher, [input]);
+      const messages = record<NrpnMessage>(dispatcher, 'nrpn-message');
+      send(input, [0xb0, 99, 0], [0xb0, 98, 1], [0xb1, 99, 0], [0xb1, 98, 2], [0xb0, 6, 10]);
+      expect(messages.map((m) => m.parameter)).toEqual([1]);
+    });
+
+    it('leaves data entry after an RPN to pass as a plain CC', async () => {
+      const dispatcher = new MidiDispatcher({ 'prompt-0': { deviceId: null, channel: null, cc: 6 } });
+      await connect(dispatcher, [input]);
+      const messages = record<NrpnMessage>(dispatcher, 'nrpn-message');
+      const values = record<ControlValue>(dispatcher, 'control-value');
+      send(input, [0xb0, 99, 0], [0xb0, 98, 1], [0xb0, 101, 0], [0xb0, 100, 0], [0xb0, 6, 127]);
+      expect(messages).toEqual([]);
+      expect(values).toEqual([{ controlId: 'prompt-0', type: 'absolute', value: 1 }]);
+    });
+  });
+
+  it('sends feedback to nothing once the paired output is unplugged', async () => {
+    const dispatcher = new MidiDispatcher();
+    const output = fakeOutput('controller', input.name);
+    const access = await connect(dispatcher, [input], [output]);
+    const mapping = { deviceId: input.id, channel: 0, cc: 3 };
+    dispatcher.sendValue(mapping, 1);
+    output.state = 'disconnected';
+    access.onstatechange?.({ port: output });
+    expect(() => dispatcher.sendValue(mapping, 0)).not.toThrow();
+    expect(output.sent).toEqual([[0xb0, 3, 127]]);
+  });
+
+  it('skips clock, notes and panic for outputs unplugged mid-set', async () => {
+    vi.useFakeTimers();
+    try {
+      const dispatcher = new MidiDispatcher();
+      const output = fakeOutput('synth');
+      const access = await connect(dispatcher, [input], [output]);
+      dispatcher.setClockOutput(output.id);
+      dispatcher.setClockTempo(120);
+      dispatcher.setNoteOutput({ outputId: output.id, channel: 0 });
+      output.state = 'disconnected';
+      access.onstatechange?.({ port: output });
+      output.sent = [];
+      expect(() => {
+        vi.advanceTimersByTime(1000);
+        dispatcher.setTransportRunning(true);
+        dispatcher.sendNoteOut(60, 100);
+        dispatcher.sendHit(36, 100);
+        dispatcher.allNotesOff();
+        dispatcher.setNoteOutput(null);
+      }).not.toThrow();
+      expect(output.sent).toEqual([]);
+      dispatcher.setClockTempo(null);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('moves the play light without touching play state', async () => {
+    const dispatcher = new MidiDispatcher();
+    const output = fakeOutput('controller', input.name);
+    await connect(dispatcher, [input], [output]);
+    dispatcher.setPlayStateFeedback({ deviceId: null, type: 'cc', channel: 0, number: 20, value: 127 });
+    dispatcher.setPlaying(true);
+    output.sent = [];
+    dispatcher.setPlayStateFeedback({ deviceId: null, type: 'note', channel: 1, number: 40, value: 100 });
+    expect(output.sent).toEqual([[0xb0, 20, 0], [0x91, 40, 100]]);
+  });
+
+  describe('clock transport', () => {
+    const START = [0xfa];
+    const STOP = [0xfc];
+
+    async function clockOut() {
+      const dispatcher = new MidiDispatcher();
+      const output = fakeOutput('drums');
+      await connect(dispatcher, [input], [output]);
+      dispatcher.setClockOutput(output.id);
+      return { dispatcher, output };
+    }
+
+    it('sends Start and Stop as the app starts and stops running', async () => {
+      const { dispatcher, output } = await clockOut();
+      dispatcher.setTransportRunning(true);
+      dispatcher.setTransportRunning(true);
+      dispatcher.setTransportRunning(false);
+      expect(output.sent).toEqual([START, STOP]);
+    });
+
+    it('keeps the transport apart from the play light', async () => {
+      const { dispatcher, output } = await clockOut();
+      dispatcher.setTransportRunning(true);
+      // buffering dims the light but leaves the gear running
+      dispatcher.setPlaying(true);
+      dispatcher.setPlaying(false);
+      dispatcher.setPlayStateFeedback({ deviceId: null, type: 'cc', channel: 0, number: 20, value: 127 });
+      expect(output.sent).toEqual([START]);
+    });
+
+    it('sends no transport back to gear whose clock is followed', async () => {
+      const { dispatcher, output } = await clockOut();
+      dispatcher.setClockInput(input.id);
+      dispatcher.setTransportRunning(true);
+      expect(output.sent).toEqual([]);
+    });
+  });
+});
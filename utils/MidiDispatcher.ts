@@ -2,17 +2,149 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import type {
+  Aftertouch,
+  ClockTransport,
+  ControlChange,
+  ControlMapping,
+  ControlValue,
+  MidiDeviceChange,
+  MidiMapping,
+  NoteMapping,
+  NoteMessage,
+  NoteOutput,
+  NrpnMessage,
+  PitchBend,
+  PlayStateFeedback,
+  ProgramChange,
+} from '../types';
+import {
+  encodingOf,
+  isCcMapping,
+  isRelative,
+  mappingFromGesture,
+  matchesMapping,
+  matchesNrpn,
+  matchesProgram,
+  noteMappingFrom,
+  nrpnMappingFrom,
+  programMappingFrom,
+  relativeSteps,
+} from './midiMapping';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** How long learning listens after the first CC, to tell how the control encodes its value. */
+const LEARN_WINDOW_MS = 400;
+/** MIDI clock ticks per beat. */
+const CLOCK_PPQN = 24;
+/** Incoming tempo is averaged over this many ticks, two beats, to ride out jitter. */
+const CLOCK_WINDOW_TICKS = 2 * CLOCK_PPQN;
+/** A gap this long between ticks means the clock stopped. */
+const CLOCK_TIMEOUT_MS = 1000;
+/**
+ * How far the incoming tempo has to drift before it is reported, since every
+ * BPM change resets the session's context.
+ */
+const CLOCK_HYSTERESIS_BPM = 1;
+/** Clock out is scheduled this far ahead, topped up on each interval. */
+const CLOCK_LOOKAHEAD_MS = 100;
+const CLOCK_INTERVAL_MS = 25;
+/** How long a hit sent with `sendHit` is held before its note-off. */
+const HIT_LENGTH_MS = 100;
+
+/** The NRPN parameter selected on one device and channel, and the data MSB last sent for it. */
+interface NrpnState {
+  parameterMsb: number;
+  parameterLsb: number;
+  selected: boolean;
+  dataMsb: number;
+}
+
+interface LearnState {
+  controlId: string;
+  noteControlId: string;
+  /** Whether a program change can be learned, which otherwise recalls a prompt bank. */
+  programs: boolean;
+  /** The CCs the control has sent so far, all from one device and channel. */
+  gesture: ControlChange[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface LearnOptions {
+  /** Where a pad or key is mapped instead, e.g. a prompt's pad beside its knob. */
+  noteControlId?: string;
+  programs?: boolean;
+}
+
+/** The ports plugged in; the maps keep ports that were unplugged. */
+function connectedPorts<T extends MIDIPort>(ports: ReadonlyMap<string, T>): T[] {
+  return [...ports.values()].filter((port) => port.state === 'connected');
+}
+
+/**
+ * Simple class for dispatching MIDI messages as events: `cc-message`,
+ * `nrpn-message`, `note-message`, `program-change`, `pitch-bend` and
+ * `aftertouch`. Listens to every enabled input at once; inputs start enabled
+ * and can be switched off.
+ *
+ * The clock of one input can be followed: its tempo is dispatched as
+ * `clock-tempo` and its start, continue and stop as `clock-transport`. Clock
+ * goes out to one output at the tempo set with `setClockTempo`, along with
+ * start and stop as the app starts and stops running.
+ *
+ * Notes played in the app, e.g. on the gesture piano, can be sent to one
+ * output and channel with `sendNoteOut` and `sendHit`, to play an external
+ * synth.
+ *
+ * Also holds which mapping drives each control, keyed by control id (a prompt
+ * id, or e.g. `master:volume`), so they can be saved and loaded as profiles.
+ * Dispatches `mappings-changed` when they change. CC and NRPN messages are
+ * decoded through the mappings they match, whatever their encoding, into
+ * `control-value` events. `learn` maps the next control that moves, working
+ * out its encoding from how it moves; `learn-changed` follows it.
+ *
+ * Feedback goes out on the output paired with each input, the one with the
+ * same name, so LED rings and motorised faders can follow changes made
+ * elsewhere. Dispatches `outputs-changed` when controllers may need their
+ * state resent.
+ *
+ * Devices can come and go once access is granted: inputs plugged in are
+ * listened to and `device-changed` is dispatched as inputs connect and
+ * disconnect.
+ */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
-  activeMidiInputId: string | null = null;
+  // ports known to be plugged in, as state changes also fire when a port merely opens or closes
+  private connectedPortIds = new Set<string>();
+  private disabledInputIds = new Set<string>();
+  private playLight: PlayStateFeedback | null = null;
+  private playing = false;
+  // whether the clock output has been sent Start, which outlasts buffering and reconnects
+  private transportRunning = false;
+  private clockInputId: string | null = null;
+  private clockTicks: number[] = [];
+  private clockBpm: number | null = null;
+  private clockOutputId: string | null = null;
+  private clockOutTempo: number | null = null;
+  private clockTimer: ReturnType<typeof setInterval> | null = null;
+  private nextClockTime = 0;
+  private noteOutputTarget: NoteOutput | null = null;
+  private readonly defaultMappings: Record<string, ControlMapping>;
+  private controlMappings: Map<string, ControlMapping>;
+  private learnState: LearnState | null = null;
+  private nrpnStates = new Map<string, NrpnState>();
+  // the last MSB of each 14-bit CC, for the LSB that follows it
+  private highResMsbs = new Map<string, number>();
+
+  constructor(defaultMappings: Record<string, ControlMapping> = {}) {
+    super();
+    this.defaultMappings = defaultMappings;
+    this.controlMappings = new Map(Object.entries(defaultMappings));
+  }
 
   async getMidiAccess(): Promise<string[]> {
 
     if (this.access) {
-      return [...this.access.inputs.keys()];
+      return this.inputIds;
     }
 
     if (!navigator.requestMIDIAccess) {
@@ -27,44 +159,542 @@ export class MidiDispatcher extends EventTarget {
       throw new Error('Unable to acquire MIDI access.');
     }
 
-    const inputIds = [...this.access.inputs.keys()];
-
-    if (inputIds.length > 0 && this.activeMidiInputId === null) {
-      this.activeMidiInputId = inputIds[0];
+    for (const input of connectedPorts(this.access.inputs)) {
+      this.attachInput(input);
+    }
+    for (const output of connectedPorts(this.access.outputs)) {
+      this.connectedPortIds.add(output.id);
     }
+    this.access.onstatechange = (event: MIDIConnectionEvent) => {
+      if (event.port) this.handleStateChange(event.port);
+    };
 
-    for (const input of this.access.inputs.values()) {
-      input.onmidimessage = (event: MIDIMessageEvent) => {
-        if (input.id !== this.activeMidiInputId) return;
+    this.sendPlayState();
+    this.dispatchEvent(new Event('outputs-changed'));
+    return this.inputIds;
+  }
 
-        const { data } = event;
-        if (!data) {
-          console.error('MIDI message has no data');
-          return;
-        }
+  /** The inputs currently plugged in. */
+  get inputIds(): string[] {
+    return this.access ? connectedPorts(this.access.inputs).map((input) => input.id) : [];
+  }
+
+  private attachInput(input: MIDIInput) {
+    this.connectedPortIds.add(input.id);
+    input.onmidimessage = (event: MIDIMessageEvent) => {
+      if (!this.isInputEnabled(input.id)) return;
 
-        const statusByte = data[0];
-        const channel = statusByte & 0x0f;
-        const messageType = statusByte & 0xf0;
+      const { data } = event;
+      if (!data) {
+        console.error('MIDI message has no data');
+        return;
+      }
+      this.handleMessage(input.id, data, event.timeStamp);
+    };
+  }
 
-        const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
+  private handleStateChange(port: MIDIPort) {
+    const connected = port.state === 'connected';
+    if (connected === this.connectedPortIds.has(port.id)) return;
+
+    if (port.type === 'output') {
+      if (connected) {
+        this.connectedPortIds.add(port.id);
+        this.sendPlayState();
+        // gear plugged back in mid-set picks the transport up again
+        if (port.id === this.clockOutputId && this.transportRunning) this.sendClockTransport(true);
+      } else {
+        this.connectedPortIds.delete(port.id);
+      }
+      this.dispatchEvent(new Event('outputs-changed'));
+      return;
+    }
 
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
+    const input = port as MIDIInput;
+    if (connected) {
+      this.attachInput(input);
+    } else {
+      this.connectedPortIds.delete(input.id);
+      input.onmidimessage = null;
+      this.clockTicks = [];
+    }
+    const detail: MidiDeviceChange = { deviceId: input.id, name: input.name ?? input.id, connected };
+    this.dispatchEvent(new CustomEvent<MidiDeviceChange>('device-changed', { detail }));
+  }
+
+  private handleMessage(deviceId: string, data: Uint8Array, timeStamp: number) {
+    const statusByte = data[0];
+    if (statusByte >= 0xf8) {
+      if (deviceId === this.clockInputId) this.handleRealtime(statusByte, timeStamp);
+      return;
+    }
+    const channel = statusByte & 0x0f;
+    const messageType = statusByte & 0xf0;
+
+    switch (messageType) {
+      case 0x80:
+      case 0x90: {
+        // a note-on at velocity 0 is a note-off
+        const velocity = messageType === 0x90 ? data[2] : 0;
+        const detail: NoteMessage = { deviceId, channel, note: data[1], velocity };
+        this.dispatchEvent(new CustomEvent<NoteMessage>('note-message', { detail }));
+        const learning = this.learnState;
+        if (learning && velocity > 0 && learning.gesture.length === 0) {
+          this.finishLearn(learning.noteControlId, noteMappingFrom(detail));
+        }
+        break;
+      }
+      case 0xa0: {
+        const detail: Aftertouch = { deviceId, channel, note: data[1], pressure: data[2] };
+        this.dispatchEvent(new CustomEvent<Aftertouch>('aftertouch', { detail }));
+        break;
+      }
+      case 0xb0: {
+        const detail: ControlChange = { deviceId, cc: data[1], value: data[2], channel };
         this.dispatchEvent(
           new CustomEvent<ControlChange>('cc-message', { detail }),
         );
-      };
+        if (!this.readNrpn(detail)) this.handleControlChange(detail);
+        break;
+      }
+      case 0xc0: {
+        const detail: ProgramChange = { deviceId, channel, program: data[1] };
+        const learning = this.learnState;
+        if (learning?.programs && learning.gesture.length === 0) {
+          this.finishLearn(learning.controlId, programMappingFrom(detail));
+          break;
+        }
+        this.dispatchEvent(new CustomEvent<ProgramChange>('program-change', { detail }));
+        break;
+      }
+      case 0xd0: {
+        const detail: Aftertouch = { deviceId, channel, note: null, pressure: data[1] };
+        this.dispatchEvent(new CustomEvent<Aftertouch>('aftertouch', { detail }));
+        break;
+      }
+      case 0xe0: {
+        // 14 bits centred on 8192, scaled so both extremes reach exactly -1 and 1
+        const raw = ((data[2] << 7) | data[1]) - 8192;
+        const detail: PitchBend = { deviceId, channel, value: raw / (raw < 0 ? 8192 : 8191) };
+        this.dispatchEvent(new CustomEvent<PitchBend>('pitch-bend', { detail }));
+        break;
+      }
+    }
+  }
+
+  private handleRealtime(statusByte: number, timeStamp: number) {
+    switch (statusByte) {
+      case 0xf8:
+        this.handleClockTick(timeStamp);
+        break;
+      case 0xfa:
+      case 0xfb:
+      case 0xfc: {
+        const transport: ClockTransport = statusByte === 0xfa ? 'start' : statusByte === 0xfb ? 'continue' : 'stop';
+        this.clockTicks = [];
+        this.dispatchEvent(new CustomEvent<ClockTransport>('clock-transport', { detail: transport }));
+        break;
+      }
     }
+  }
+
+  private handleClockTick(timeStamp: number) {
+    const ticks = this.clockTicks;
+    if (ticks.length > 0 && timeStamp - ticks[ticks.length - 1] > CLOCK_TIMEOUT_MS) ticks.length = 0;
+    ticks.push(timeStamp);
+    if (ticks.length > CLOCK_WINDOW_TICKS + 1) ticks.shift();
+    if (ticks.length <= CLOCK_WINDOW_TICKS) return;
+    const beatMs = ((ticks[ticks.length - 1] - ticks[0]) / (ticks.length - 1)) * CLOCK_PPQN;
+    const bpm = 60000 / beatMs;
+    if (this.clockBpm === null || Math.abs(bpm - this.clockBpm) >= CLOCK_HYSTERESIS_BPM) {
+      this.clockBpm = Math.round(bpm);
+      this.dispatchEvent(new CustomEvent<number>('clock-tempo', { detail: this.clockBpm }));
+    }
+  }
+
+  /** The input whose clock is followed, if any. */
+  get clockInput() {
+    return this.clockInputId;
+  }
+
+  /** The tempo last reported from the followed clock. */
+  get clockTempo() {
+    return this.clockBpm;
+  }
+
+  setClockInput(id: string | null) {
+    this.clockInputId = id;
+    this.clockTicks = [];
+    this.clockBpm = null;
+  }
+
+  /** The output clock is sent to, if any. */
+  get clockOutput() {
+    return this.clockOutputId;
+  }
+
+  setClockOutput(id: string | null) {
+    if (this.transportRunning) this.sendClockTransport(false);
+    this.clockOutputId = id;
+    if (this.transportRunning) this.sendClockTransport(true);
+    this.updateClockOut();
+  }
+
+  /** The tempo clock is sent at; null stops sending it. */
+  setClockTempo(bpm: number | null) {
+    this.clockOutTempo = bpm;
+    this.updateClockOut();
+  }
+
+  private updateClockOut() {
+    const running = this.clockOutputId !== null && this.clockOutTempo !== null;
+    if (running && this.clockTimer === null) {
+      this.nextClockTime = performance.now();
+      this.clockTimer = setInterval(() => this.scheduleClock(), CLOCK_INTERVAL_MS);
+      this.scheduleClock();
+    } else if (!running && this.clockTimer !== null) {
+      clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+  }
+
+  /** Sends the ticks due before the lookahead runs out, timestamped so the MIDI driver spaces them evenly. */
+  private scheduleClock() {
+    const output = this.connectedOutput(this.clockOutputId);
+    if (!output || this.clockOutTempo === null) return;
+    const tickMs = 60000 / (this.clockOutTempo * CLOCK_PPQN);
+    const now = performance.now();
+    // after a stall, e.g. in a background tab, carry on from now rather than sending a burst
+    if (this.nextClockTime < now - tickMs) this.nextClockTime = now;
+    while (this.nextClockTime < now + CLOCK_LOOKAHEAD_MS) {
+      output.send([0xf8], this.nextClockTime);
+      this.nextClockTime += tickMs;
+    }
+  }
+
+  /**
+   * Sends Start or Stop to the clock output as the app starts or stops
+   * running, not as it pauses to buffer, which would restart the gear from
+   * its first bar. Nothing is sent while following a clock, whose gear is
+   * already where the app's transport came from.
+   */
+  setTransportRunning(running: boolean) {
+    if (this.transportRunning === running) return;
+    this.transportRunning = running;
+    this.sendClockTransport(running);
+  }
+
+  private sendClockTransport(playing: boolean) {
+    if (this.clockInputId !== null) return;
+    this.connectedOutput(this.clockOutputId)?.send([playing ? 0xfa : 0xfc]);
+  }
+
+  /** The output and channel notes played in the app go to, if any. */
+  get noteOutput() {
+    return this.noteOutputTarget;
+  }
+
+  /** Sets where notes go, releasing any still sounding where they went before. */
+  setNoteOutput(target: NoteOutput | null) {
+    const previous = this.noteOutputTarget;
+    if (previous) this.connectedOutput(previous.outputId)?.send([0xb0 | previous.channel, 123, 0]);
+    this.noteOutputTarget = target;
+  }
+
+  /** Sends a note-on to the note output, or a note-off for a velocity of 0. */
+  sendNoteOut(note: number, velocity: number) {
+    const target = this.noteOutputTarget;
+    if (!target) return;
+    const output = this.connectedOutput(target.outputId);
+    output?.send(velocity > 0 ? [0x90 | target.channel, note, velocity] : [0x80 | target.channel, note, 0]);
+  }
+
+  /** Sends a one-shot, e.g. a drum hit, with its note-off scheduled just after. */
+  sendHit(note: number, velocity: number) {
+    const target = this.noteOutputTarget;
+    if (!target) return;
+    const output = this.connectedOutput(target.outputId);
+    output?.send([0x90 | target.channel, note, velocity]);
+    output?.send([0x80 | target.channel, note, 0], performance.now() + HIT_LENGTH_MS);
+  }
+
+  /**
+   * Follows the CCs that select an NRPN parameter and set its value,
+   * dispatching the NRPN once its data arrives. Returns whether `change` was
+   * part of one. RPN selection is left to pass through as plain CCs.
+   */
+  private readNrpn(change: ControlChange) {
+    const key = `${change.deviceId}:${change.channel}`;
+    let state = this.nrpnStates.get(key);
+    if (!state) {
+      state = { parameterMsb: 0, parameterLsb: 0, selected: false, dataMsb: 0 };
+      this.nrpnStates.set(key, state);
+    }
+    switch (change.cc) {
+      case 99:
+        state.parameterMsb = change.value;
+        state.selected = true;
+        return true;
+      case 98:
+        state.parameterLsb = change.value;
+        state.selected = true;
+        return true;
+      case 101:
+      case 100:
+        state.selected = false;
+        return false;
+      case 6:
+      case 38: {
+        if (!state.selected) return false;
+        // a new MSB clears the LSB, as with any 14-bit pair
+        const value = change.cc === 6 ? change.value << 7 : (state.dataMsb << 7) | change.value;
+        if (change.cc === 6) state.dataMsb = change.value;
+        const parameter = (state.parameterMsb << 7) | state.parameterLsb;
+        this.handleNrpn({ deviceId: change.deviceId, channel: change.channel, parameter, value });
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private handleNrpn(message: NrpnMessage) {
+    this.dispatchEvent(new CustomEvent<NrpnMessage>('nrpn-message', { detail: message }));
+    if (this.learnState) {
+      // an NRPN needs no watching to know how it's encoded
+      this.finishLearn(this.learnState.controlId, nrpnMappingFrom(message));
+      return;
+    }
+    for (const [controlId, mapping] of this.controlMappings) {
+      if (matchesNrpn(mapping, message)) {
+        this.dispatchControlValue({ controlId, type: 'absolute', value: message.value / 16383 });
+      }
+    }
+  }
+
+  private handleControlChange(change: ControlChange) {
+    if (this.learnState) {
+      this.learnFrom(this.learnState, change);
+      return;
+    }
+    for (const [controlId, mapping] of this.controlMappings) {
+      if (!isCcMapping(mapping) || !matchesMapping(mapping, change)) continue;
+      const encoding = encodingOf(mapping);
+      if (encoding === '14bit') {
+        const key = `${change.deviceId}:${change.channel}:${mapping.cc}`;
+        let value: number;
+        if (change.cc === mapping.cc) {
+          this.highResMsbs.set(key, change.value);
+          value = change.value << 7;
+        } else {
+          value = ((this.highResMsbs.get(key) ?? 0) << 7) | change.value;
+        }
+        this.dispatchControlValue({ controlId, type: 'absolute', value: value / 16383 });
+      } else if (isRelative(encoding)) {
+        this.dispatchControlValue({ controlId, type: 'relative', delta: relativeSteps(encoding, change.value) / 127 });
+      } else {
+        this.dispatchControlValue({ controlId, type: 'absolute', value: change.value / 127 });
+      }
+    }
+  }
+
+  private dispatchControlValue(detail: ControlValue) {
+    this.dispatchEvent(new CustomEvent<ControlValue>('control-value', { detail }));
+  }
+
+  /** The control waiting to be learned, if any. */
+  get learningControlId() {
+    return this.learnState?.controlId ?? null;
+  }
+
+  /**
+   * Maps the next control that moves to `controlId`, or a pad or key to
+   * `noteControlId`. A CC is watched for a moment first, to tell relative
+   * encoders and 14-bit faders from plain knobs. With `programs`, a program
+   * change is learned too, rather than recalling its bank.
+   */
+  learn(controlId: string, { noteControlId = controlId, programs = false }: LearnOptions = {}) {
+    if (this.learnState?.timer) clearTimeout(this.learnState.timer);
+    this.learnState = { controlId, noteControlId, programs, gesture: [], timer: null };
+    this.dispatchEvent(new Event('learn-changed'));
+  }
+
+  cancelLearn() {
+    if (!this.learnState) return;
+    if (this.learnState.timer) clearTimeout(this.learnState.timer);
+    this.learnState = null;
+    this.dispatchEvent(new Event('learn-changed'));
+  }
+
+  private learnFrom(learning: LearnState, change: ControlChange) {
+    const [first] = learning.gesture;
+    if (first && (first.deviceId !== change.deviceId || first.channel !== change.channel)) return;
+    learning.gesture.push(change);
+    learning.timer ??= setTimeout(() => {
+      this.finishLearn(learning.controlId, mappingFromGesture(learning.gesture));
+    }, LEARN_WINDOW_MS);
+  }
+
+  private finishLearn(controlId: string, mapping: ControlMapping) {
+    if (this.learnState?.timer) clearTimeout(this.learnState.timer);
+    this.learnState = null;
+    this.setMapping(controlId, mapping);
+    this.dispatchEvent(new Event('learn-changed'));
+  }
+
+  /** Whether a program change is mapped to a control, and so shouldn't recall a bank. */
+  isProgramMapped(change: ProgramChange) {
+    return [...this.controlMappings.values()].some((mapping) => matchesProgram(mapping, change));
+  }
+
+  getMapping(controlId: string): ControlMapping | null {
+    return this.controlMappings.get(controlId) ?? null;
+  }
+
+  setMapping(controlId: string, mapping: ControlMapping | null) {
+    if (mapping) {
+      this.controlMappings.set(controlId, mapping);
+    } else {
+      this.controlMappings.delete(controlId);
+    }
+    this.dispatchEvent(new Event('mappings-changed'));
+  }
+
+  /** Every control's mapping, keyed by control id. */
+  get mappings(): Record<string, ControlMapping> {
+    return Object.fromEntries(this.controlMappings);
+  }
+
+  /** Merges in a set of mappings, replacing those for the same controls. */
+  applyMappings(mappings: Record<string, ControlMapping>) {
+    for (const [controlId, mapping] of Object.entries(mappings)) {
+      this.controlMappings.set(controlId, mapping);
+    }
+    this.dispatchEvent(new Event('mappings-changed'));
+  }
+
+  /** Back to the default knob layout, forgetting everything learned. */
+  resetMappings() {
+    this.controlMappings = new Map(Object.entries(this.defaultMappings));
+    this.dispatchEvent(new Event('mappings-changed'));
+  }
+
+  isInputEnabled(id: string) {
+    return !this.disabledInputIds.has(id);
+  }
+
+  setInputEnabled(id: string, enabled: boolean) {
+    if (enabled) {
+      this.disabledInputIds.delete(id);
+      this.sendPlayState();
+      this.dispatchEvent(new Event('outputs-changed'));
+    } else {
+      this.disabledInputIds.add(id);
+    }
+  }
+
+  /** The output with `id` if it is plugged in; sending to an unplugged one throws. */
+  private connectedOutput(id: string | null): MIDIOutput | null {
+    const output = id === null ? undefined : this.access?.outputs.get(id);
+    return output?.state === 'connected' ? output : null;
+  }
+
+  /** The outputs feedback for `deviceId` goes to; every enabled controller's for null. */
+  private outputsFor(deviceId: string | null): MIDIOutput[] {
+    if (!this.access) return [];
+    const inputs = deviceId === null
+      ? [...this.access.inputs.values()].filter((input) => this.isInputEnabled(input.id))
+      : [this.access.inputs.get(deviceId)].filter((input) => input !== undefined);
+    const outputs = connectedPorts(this.access.outputs);
+    return inputs
+      .map((input) => outputs.find((output) => output.name === input.name))
+      .filter((output) => output !== undefined);
+  }
+
+  /**
+   * Echoes a control's position, 0 to 1, to the controller it is mapped from,
+   * in the mapping's encoding. Endless encoders get it as an absolute CC,
+   * which is what their LED rings take.
+   */
+  sendValue(mapping: MidiMapping, value: number) {
+    const status = 0xb0 | (mapping.channel ?? 0);
+    const fine = Math.round(value * 16383);
+    let messages: number[][];
+    switch (encodingOf(mapping)) {
+      case '14bit':
+        messages = [[status, mapping.cc, fine >> 7], [status, mapping.cc + 32, fine & 0x7f]];
+        break;
+      case 'nrpn':
+        messages = [
+          [status, 99, mapping.cc >> 7],
+          [status, 98, mapping.cc & 0x7f],
+          [status, 6, fine >> 7],
+          [status, 38, fine & 0x7f],
+        ];
+        break;
+      default:
+        messages = [[status, mapping.cc, Math.round(value * 127)]];
+    }
+    for (const output of this.outputsFor(mapping.deviceId)) {
+      for (const message of messages) output.send(message);
+    }
+  }
+
+  /** Lights a pad mapped to a control, e.g. while its prompt is on. */
+  sendNote(mapping: NoteMapping, velocity: number) {
+    const status = 0x90 | (mapping.channel ?? 0);
+    for (const output of this.outputsFor(mapping.deviceId)) {
+      output.send([status, mapping.note, velocity]);
+    }
+  }
+
+  /** Sends All Notes Off on every channel of every output, for notes left hanging. */
+  allNotesOff() {
+    if (!this.access) return;
+    for (const output of connectedPorts(this.access.outputs)) {
+      for (let channel = 0; channel < 16; channel++) output.send([0xb0 | channel, 123, 0]);
+    }
+  }
+
+  get playStateFeedback() {
+    return this.playLight;
+  }
+
+  /** Sets the light that follows play state, turning off the old one. */
+  setPlayStateFeedback(feedback: PlayStateFeedback | null) {
+    if (this.playing) this.sendPlayState(false);
+    this.playLight = feedback;
+    this.sendPlayState();
+  }
+
+  /** Lights the play light while audio plays; clock transport is set apart with `setTransportRunning`. */
+  setPlaying(playing: boolean) {
+    if (this.playing === playing) return;
+    this.playing = playing;
+    this.sendPlayState();
+  }
+
+  private sendPlayState(lit = this.playing) {
+    if (!this.playLight) return;
+    const { deviceId, type, channel, number, value } = this.playLight;
+    // lights go dark on a note-on at velocity 0, which more controllers honour than note-off
+    const status = (type === 'note' ? 0x90 : 0xb0) | channel;
+    for (const output of this.outputsFor(deviceId)) {
+      output.send([status, number, lit ? value : 0]);
+    }
+  }
 
-    return inputIds;
+  /** Every output plugged in, including those of gear with no input, e.g. for clock. */
+  get outputIds(): string[] {
+    return this.access ? connectedPorts(this.access.outputs).map((output) => output.id) : [];
   }
 
+  /** The name of an input or output. */
   getDeviceName(id: string): string | null {
     if (!this.access) {
       return null;
     }
-    const input = this.access.inputs.get(id);
-    return input ? input.name : null;
+    const port = this.access.inputs.get(id) ?? this.access.outputs.get(id);
+    return port ? port.name : null;
   }
 }
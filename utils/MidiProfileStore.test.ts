@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { createProfile, parseProfile } from './MidiProfileStore';
+
+function profileJson(mappings: Record<string, unknown>, fields: Record<string, unknown> = {}) {
+  return JSON.stringify({ name: 'Twister', deviceName: 'Midi Fighter Twister', mappings, ...fields });
+}
+
+describe('parseProfile', () => {
+  it('reads back an exported profile', () => {
+    const profile = createProfile('Twister', 'Midi Fighter Twister', {
+      'prompt-0': { deviceId: 'input-1', channel: 0, cc: 3, encoding: 'relative-twos', curve: 's-curve', min: 0.2, max: 0.8, invert: true },
+      'prompt-0:pad': { deviceId: 'input-1', channel: 9, note: 36 },
+      'action:panic': { deviceId: null, channel: null, program: 5 },
+    });
+    expect(parseProfile(JSON.stringify(profile))).toEqual(profile);
+  });
+
+  it('trims the name', () => {
+    expect(parseProfile(profileJson({}, { name: '  Twister ' })).name).toBe('Twister');
+  });
+
+  it('accepts 14-bit NRPN parameters only for NRPN mappings', () => {
+    const nrpn = { deviceId: null, channel: 0, cc: 1000, encoding: 'nrpn' };
+    expect(() => parseProfile(profileJson({ 'prompt-0': nrpn }))).not.toThrow();
+    expect(() => parseProfile(profileJson({ 'prompt-0': { ...nrpn, encoding: 'absolute' } }))).toThrow();
+  });
+
+  it('rejects what is not JSON', () => {
+    expect(() => parseProfile('{')).toThrow('The file is not valid JSON.');
+  });
+
+  it.each([
+    ['not an object', '[]'],
+    ['null', 'null'],
+    ['a blank name', profileJson({}, { name: ' ' })],
+    ['a numeric device name', profileJson({}, { deviceName: 3 })],
+    ['no mappings', profileJson({}, { mappings: null })],
+    ['a CC out of range', profileJson({ 'prompt-0': { deviceId: null, channel: 0, cc: 128 } })],
+    ['a fractional CC', profileJson({ 'prompt-0': { deviceId: null, channel: 0, cc: 1.5 } })],
+    ['a CC given as a string', profileJson({ 'prompt-0': { deviceId: null, channel: 0, cc: '3' } })],
+    ['a channel out of range', profileJson({ 'prompt-0': { deviceId: null, channel: 16, cc: 3 } })],
+    ['an unknown encoding', profileJson({ 'prompt-0': { deviceId: null, channel: 0, cc: 3, encoding: 'gray' } })],
+    ['an unknown curve', profileJson({ 'prompt-0': { deviceId: null, channel: 0, cc: 3, curve: 'log' } })],
+    ['a range past 1', profileJson({ 'prompt-0': { deviceId: null, channel: 0, cc: 3, max: 2 } })],
+    ['a note out of range', profileJson({ 'prompt-0:pad': { deviceId: null, channel: 0, note: 200 } })],
+    ['a numeric device id', profileJson({ 'prompt-0': { deviceId: 1, channel: 0, cc: 3 } })],
+  ])('rejects %s', (_, json) => {
+    expect(() => parseProfile(json)).toThrow('The file is not a MIDI mapping profile.');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CcEncoding, ControlMapping, MidiProfile, ResponseCurve, TakeoverPolicy } from '../types';
+import type { MidiDispatcher } from './MidiDispatcher';
+import { PRESET_PROFILES } from './midiPresets';
+
+const STORAGE_KEY = 'promptdj-midi:profiles';
+
+function isMidiNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < 128;
+}
+
+const ENCODINGS: CcEncoding[] = ['absolute', 'relative-twos', 'relative-offset', 'relative-signed', '14bit', 'nrpn'];
+const TAKEOVER_POLICIES: TakeoverPolicy[] = ['jump', 'pickup', 'scale'];
+const CURVES: ResponseCurve[] = ['linear', 'exponential', 's-curve'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isStringOrNull(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+function isOneOfOrMissing(values: readonly string[], value: unknown) {
+  return value === undefined || (typeof value === 'string' && values.includes(value));
+}
+
+function isUnitOrMissing(value: unknown) {
+  return value === undefined || (typeof value === 'number' && value >= 0 && value <= 1);
+}
+
+function isCcMapping(value: Record<string, unknown>) {
+  if (!isOneOfOrMissing(TAKEOVER_POLICIES, value.takeover)) return false;
+  if (!isUnitOrMissing(value.min) || !isUnitOrMissing(value.max)) return false;
+  if (!isOneOfOrMissing(CURVES, value.curve)) return false;
+  if (value.invert !== undefined && typeof value.invert !== 'boolean') return false;
+  if (value.encoding === undefined) return isMidiNumber(value.cc);
+  if (!isOneOfOrMissing(ENCODINGS, value.encoding)) return false;
+  // NRPN parameters are 14-bit
+  return value.encoding === 'nrpn'
+    ? typeof value.cc === 'number' && Number.isInteger(value.cc) && value.cc >= 0 && value.cc < 16384
+    : isMidiNumber(value.cc);
+}
+
+function isMapping(value: unknown): value is ControlMapping {
+  return isRecord(value)
+    && ('note' in value ? isMidiNumber(value.note) : 'program' in value ? isMidiNumber(value.program) : isCcMapping(value))
+    && (value.channel === null || (typeof value.channel === 'number' && Number.isInteger(value.channel) && value.channel >= 0 && value.channel < 16))
+    && isStringOrNull(value.deviceId);
+}
+
+/** Parses an exported profile, throwing if it isn't one. */
+export function parseProfile(json: string): MidiProfile {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(value)) throw new Error('The file is not a MIDI mapping profile.');
+  const { name, deviceName, mappings } = value;
+  if (
+    typeof name !== 'string' || !name.trim()
+    || !isStringOrNull(deviceName)
+    || !isRecord(mappings)
+    || !Object.values(mappings).every(isMapping)
+  ) {
+    throw new Error('The file is not a MIDI mapping profile.');
+  }
+  return { name: name.trim(), deviceName, mappings: mappings as Record<string, ControlMapping> };
+}
+
+/**
+ * A profile of the current mappings. Device ids aren't stable across sessions,
+ * so they are dropped; the profile's device name stands in for them.
+ */
+export function createProfile(name: string, deviceName: string | null, mappings: Record<string, ControlMapping>): MidiProfile {
+  const portable = Object.fromEntries(
+    Object.entries(mappings).map(([controlId, mapping]) => [controlId, { ...mapping, deviceId: null }]),
+  );
+  return { name, deviceName, mappings: portable };
+}
+
+/**
+ * Saves mapping profiles in localStorage and loads the right one when a
+ * known controller connects, preferring saved profiles over the presets.
+ */
+export class MidiProfileStore {
+  // inputs already given their profile, so re-listing them doesn't undo changes made since
+  private autoLoadedIds = new Set<string>();
+
+  /** Saved profiles, sorted by name. */
+  list(): MidiProfile[] {
+    try {
+      const profiles = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as MidiProfile[];
+      return profiles.sort((a, b) => a.name.localeCompare(b.name));
+    } catch {
+      return [];
+    }
+  }
+
+  private write(profiles: MidiProfile[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }
+
+  /** Saves `profile`, replacing any saved profile with the same name. */
+  save(profile: MidiProfile) {
+    this.write([...this.list().filter((p) => p.name !== profile.name), profile]);
+  }
+
+  delete(name: string) {
+    this.write(this.list().filter((p) => p.name !== name));
+  }
+
+  findForDevice(deviceName: string): MidiProfile | null {
+    const name = deviceName.toLowerCase();
+    const matches = (profile: MidiProfile) =>
+      profile.deviceName !== null && name.includes(profile.deviceName.toLowerCase());
+    return this.list().find(matches) ?? PRESET_PROFILES.find(matches) ?? null;
+  }
+
+  /**
+   * Applies the profile for each input not seen before, bound to that input
+   * so two controllers can share CC numbers. Returns what was loaded.
+   */
+  autoLoad(dispatcher: MidiDispatcher, inputIds: string[]) {
+    const loaded: Array<{ profile: MidiProfile; deviceName: string }> = [];
+    for (const id of inputIds) {
+      if (this.autoLoadedIds.has(id)) continue;
+      this.autoLoadedIds.add(id);
+      const deviceName = dispatcher.getDeviceName(id);
+      const profile = deviceName ? this.findForDevice(deviceName) : null;
+      if (!deviceName || !profile) continue;
+      const bound = Object.fromEntries(
+        Object.entries(profile.mappings).map(([controlId, mapping]) => [controlId, { ...mapping, deviceId: id }]),
+      );
+      dispatcher.applyMappings(bound);
+      loaded.push({ profile, deviceName });
+    }
+    return loaded;
+  }
+}
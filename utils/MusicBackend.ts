@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  GoogleGenAI,
+  LiveMusicCallbacks,
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+} from '@google/genai';
+
+/** A connected music generation session. `LiveMusicSession` satisfies this as-is. */
+export interface MusicSession {
+  setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters): Promise<void>;
+  setMusicGenerationConfig(params: LiveMusicSetConfigParameters): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  resetContext(): void;
+  close(): void;
+}
+
+/** Opens music generation sessions that report back through the Lyria callbacks. */
+export interface MusicBackend {
+  readonly name: string;
+  connect(callbacks: LiveMusicCallbacks): Promise<MusicSession>;
+}
+
+/** Streams from the Lyria RealTime model. */
+export class LyriaBackend implements MusicBackend {
+  readonly name = 'lyria';
+
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(ai: GoogleGenAI, model: string) {
+    this.ai = ai;
+    this.model = model;
+  }
+
+  /**
+   * The SDK only settles once the socket opens, so a socket that errors or
+   * closes first is turned into a rejection here; its callbacks are only
+   * passed on once it's open.
+   */
+  connect(callbacks: LiveMusicCallbacks): Promise<MusicSession> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      // true if the socket failed before opening, rejecting the connect
+      const failed = (reason: string) => {
+        if (settled) return false;
+        settled = true;
+        reject(new Error(reason));
+        return true;
+      };
+      this.ai.live.music.connect({
+        model: this.model,
+        callbacks: {
+          ...callbacks,
+          onerror: (e) => {
+            if (!failed('Could not connect to Lyria.')) callbacks.onerror?.(e);
+          },
+          onclose: (e) => {
+            if (!failed('The connection to Lyria closed before it opened.')) callbacks.onclose?.(e);
+          },
+        },
+      }).then((session) => {
+        if (settled) {
+          session.close();
+          return;
+        }
+        settled = true;
+        resolve(session);
+      }, (e) => failed(e instanceof Error ? e.message : String(e)));
+    });
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decode, deinterleave } from './audio';
+
+/**
+ * Decodes base64 16-bit PCM into planar float channels. The channel buffers
+ * are transferred back rather than copied.
+ */
+const DECODER_WORKER_SOURCE = `
+self.onmessage = (e) => {
+  const { id, data, numChannels } = e.data;
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  const samples = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+  const frames = samples.length / numChannels;
+  const channels = [];
+  for (let c = 0; c < numChannels; c++) {
+    channels.push(new Float32Array(frames));
+  }
+  for (let i = 0, s = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++, s++) {
+      channels[c][i] = samples[s] / 32768;
+    }
+  }
+  self.postMessage({ id, channels }, channels.map((c) => c.buffer));
+};
+`;
+
+interface PendingDecode {
+  resolve: (channels: Float32Array[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Decodes PCM audio chunks in a Web Worker so the main thread stays free for
+ * hand tracking and rendering. Falls back to decoding inline where workers
+ * are unavailable.
+ */
+export class PcmDecoder {
+  private readonly worker: Worker | null = null;
+  private readonly workerUrl: string | null = null;
+  private readonly pending = new Map<number, PendingDecode>();
+  private nextId = 0;
+  /**
+   * Main-thread time spent posting chunks to the worker and taking its results
+   * back, including the structured clone each way. Read by the decode benchmark.
+   */
+  mainThreadMs = 0;
+
+  constructor() {
+    if (typeof Worker === 'undefined') return;
+    this.workerUrl = URL.createObjectURL(new Blob([DECODER_WORKER_SOURCE], { type: 'text/javascript' }));
+    this.worker = new Worker(this.workerUrl);
+    this.worker.onmessage = (e: MessageEvent) => {
+      const start = performance.now();
+      const { id, channels } = e.data;
+      this.pending.get(id)?.resolve(channels);
+      this.pending.delete(id);
+      this.mainThreadMs += performance.now() - start;
+    };
+    this.worker.onerror = (e: ErrorEvent) => {
+      for (const { reject } of this.pending.values()) reject(new Error(e.message));
+      this.pending.clear();
+    };
+  }
+
+  /** Results resolve in the order the chunks were submitted. */
+  decode(base64: string, numChannels: number): Promise<Float32Array[]> {
+    if (!this.worker) {
+      return Promise.resolve(deinterleave(decode(base64), numChannels));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const start = performance.now();
+      this.worker!.postMessage({ id, data: base64, numChannels });
+      this.mainThreadMs += performance.now() - start;
+    });
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+    for (const { reject } of this.pending.values()) reject(new Error('Decoder terminated.'));
+    this.pending.clear();
+  }
+}
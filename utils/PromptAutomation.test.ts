@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PromptAutomation } from './PromptAutomation';
+import type { Prompt } from '../types';
+
+function prompts(weight: number) {
+  return new Map<string, Prompt>([['prompt-0', { promptId: 'prompt-0', text: 'Bossa Nova', weight, color: '#fff' }]]);
+}
+
+describe('PromptAutomation', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('ramps a weight over bars at the set tempo and sends where it ends', async () => {
+    const sent: number[] = [];
+    const automation = new PromptAutomation(prompts(0), async (p) => {
+      sent.push(p.get('prompt-0')!.weight);
+    });
+    automation.bpm = 120;
+    // one bar at 120 BPM is two seconds
+    automation.ramp('prompt-0', 1.5, 1, 'bars');
+    expect(automation.rampingPromptIds).toEqual(['prompt-0']);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent.at(-1)).toBeCloseTo(0.75, 1);
+    await vi.advanceTimersByTimeAsync(1200);
+    expect(sent.at(-1)).toBe(1.5);
+    expect(automation.rampingPromptIds).toEqual([]);
+  });
+
+  it('gives a ramping prompt back to a hand that moves it', () => {
+    const automation = new PromptAutomation(prompts(0), async () => {});
+    automation.ramp('prompt-0', 2, 10);
+    automation.setPrompts(prompts(0.4));
+    expect(automation.rampingPromptIds).toEqual([]);
+  });
+});
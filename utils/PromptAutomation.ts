@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, RampUnit } from '../types';
+
+interface ActiveRamp {
+  from: number;
+  to: number;
+  startMs: number;
+  durationMs: number;
+  /** The weight this ramp last wrote, to notice when someone else moves the prompt. */
+  current: number;
+}
+
+/** How often weights go to the session. Faster than this and the server pushes back. */
+const SEND_INTERVAL_MS = 200;
+const BEATS_PER_BAR = 4;
+
+/**
+ * Sits in front of `LiveMusicHelper.setWeightedPrompts`. Bursts of updates
+ * are coalesced into one send per tick, and the latest weights are always
+ * the ones that go out. Timed ramps are stepped at the same steady rate.
+ *
+ * Dispatches `prompts-changed` whenever a ramp moves a weight, so the UI can
+ * follow along.
+ */
+export class PromptAutomation extends EventTarget {
+  /** Tempo used to convert ramps given in bars. */
+  public bpm = 120;
+
+  private prompts: Map<string, Prompt>;
+  private readonly send: (prompts: Map<string, Prompt>) => Promise<void>;
+  private readonly ramps = new Map<string, ActiveRamp>();
+
+  private dirty = false;
+  private sending = false;
+  private interval: number | null = null;
+
+  constructor(
+    prompts: Map<string, Prompt>,
+    send: (prompts: Map<string, Prompt>) => Promise<void>,
+  ) {
+    super();
+    this.prompts = prompts;
+    this.send = send;
+  }
+
+  /** Takes the latest prompts from the UI. A hand on a ramping prompt cancels its ramp. */
+  setPrompts(prompts: Map<string, Prompt>) {
+    for (const [promptId, ramp] of this.ramps) {
+      if (prompts.get(promptId)?.weight !== ramp.current) this.ramps.delete(promptId);
+    }
+    this.prompts = prompts;
+    this.markDirty();
+  }
+
+  /**
+   * Moves a prompt's weight to `to` over `duration` seconds or bars, starting
+   * from `from` if given and otherwise from where it is now.
+   */
+  ramp(promptId: string, to: number, duration: number, unit: RampUnit = 'seconds', from?: number) {
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) return;
+    const seconds = unit === 'bars' ? (duration * BEATS_PER_BAR * 60) / this.bpm : duration;
+    const start = from ?? prompt.weight;
+    this.ramps.set(promptId, {
+      from: start,
+      to,
+      startMs: performance.now(),
+      durationMs: seconds * 1000,
+      current: start,
+    });
+    this.markDirty();
+  }
+
+  cancelRamp(promptId: string) {
+    this.ramps.delete(promptId);
+  }
+
+  get rampingPromptIds() {
+    return [...this.ramps.keys()];
+  }
+
+  private markDirty() {
+    this.dirty = true;
+    if (this.interval !== null) return;
+    this.interval = window.setInterval(() => this.tick(), SEND_INTERVAL_MS);
+    this.tick();
+  }
+
+  private stepRamps() {
+    if (this.ramps.size === 0) return;
+    const now = performance.now();
+    const prompts = new Map(this.prompts);
+    for (const [promptId, ramp] of this.ramps) {
+      const prompt = prompts.get(promptId);
+      if (!prompt) {
+        this.ramps.delete(promptId);
+        continue;
+      }
+      const progress = ramp.durationMs > 0 ? Math.min(1, (now - ramp.startMs) / ramp.durationMs) : 1;
+      ramp.current = ramp.from + (ramp.to - ramp.from) * progress;
+      prompts.set(promptId, { ...prompt, weight: ramp.current });
+      if (progress >= 1) this.ramps.delete(promptId);
+    }
+    this.prompts = prompts;
+    this.dirty = true;
+    this.dispatchEvent(new CustomEvent<Map<string, Prompt>>('prompts-changed', { detail: prompts }));
+  }
+
+  private async tick() {
+    this.stepRamps();
+
+    if (!this.dirty) {
+      if (this.ramps.size === 0 && this.interval !== null) {
+        clearInterval(this.interval);
+        this.interval = null;
+      }
+      return;
+    }
+    // still waiting on the last send, pick the latest up next tick
+    if (this.sending) return;
+
+    this.dirty = false;
+    this.sending = true;
+    try {
+      await this.send(this.prompts);
+    } finally {
+      this.sending = false;
+    }
+  }
+}
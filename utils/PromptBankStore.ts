@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, PromptBank } from '../types';
+
+const STORAGE_KEY = 'promptdj-midi:banks';
+
+/** Saves prompt banks in localStorage, one per MIDI program number. */
+export class PromptBankStore {
+  /** Stored banks, by program number. */
+  list(): PromptBank[] {
+    try {
+      const banks = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as PromptBank[];
+      return banks.sort((a, b) => a.program - b.program);
+    } catch {
+      return [];
+    }
+  }
+
+  get(program: number): PromptBank | null {
+    return this.list().find((bank) => bank.program === program) ?? null;
+  }
+
+  /** Stores the prompts, in grid order, under `program`. */
+  save(program: number, prompts: Prompt[]) {
+    const bank: PromptBank = {
+      program,
+      prompts: prompts.map(({ text, weight, color }) => ({ text, weight, color })),
+    };
+    this.write([...this.list().filter((b) => b.program !== program), bank]);
+  }
+
+  delete(program: number) {
+    this.write(this.list().filter((b) => b.program !== program));
+  }
+
+  private write(banks: PromptBank[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(banks));
+  }
+}
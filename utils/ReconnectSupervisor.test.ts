@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ReconnectSupervisor } from './ReconnectSupervisor';
+import type { ReconnectAttempt } from './ReconnectSupervisor';
+
+function record(supervisor: ReconnectSupervisor) {
+  const events: Array<{ type: string; detail: unknown }> = [];
+  for (const type of ['reconnecting', 'reconnected', 'gave-up']) {
+    supervisor.addEventListener(type, (e) => events.push({ type, detail: (e as CustomEvent).detail }));
+  }
+  return events;
+}
+
+describe('ReconnectSupervisor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // the top of each jitter range
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially up to the maximum delay', async () => {
+    const supervisor = new ReconnectSupervisor(() => Promise.reject(new Error('down')), {
+      baseDelayMs: 100,
+      maxDelayMs: 500,
+      maxAttempts: 5,
+    });
+    const events = record(supervisor);
+    supervisor.schedule();
+    await vi.runAllTimersAsync();
+    const delays = events
+      .filter((e) => e.type === 'reconnecting')
+      .map((e) => (e.detail as ReconnectAttempt).delayMs);
+    expect(delays).toEqual([100, 200, 400, 500, 500]);
+  });
+
+  it('gives up after the maximum attempts and starts counting afresh', async () => {
+    const reconnect = vi.fn(() => Promise.reject(new Error('down')));
+    const supervisor = new ReconnectSupervisor(reconnect, { maxAttempts: 3 });
+    const events = record(supervisor);
+    supervisor.schedule();
+    await vi.runAllTimersAsync();
+    expect(reconnect).toHaveBeenCalledTimes(3);
+    expect(events.at(-1)?.type).toBe('gave-up');
+    expect(supervisor.attempts).toBe(0);
+  });
+
+  it('reports the attempt that reconnected', async () => {
+    let failures = 2;
+    const supervisor = new ReconnectSupervisor(() => (failures-- > 0 ? Promise.reject(new Error('down')) : Promise.resolve()));
+    const events = record(supervisor);
+    supervisor.schedule();
+    await vi.runAllTimersAsync();
+    expect(events.at(-1)).toEqual({ type: 'reconnected', detail: 3 });
+  });
+
+  it('times out an attempt that never settles and tries again', async () => {
+    const reconnect = vi.fn(() => new Promise<void>(() => {}));
+    const supervisor = new ReconnectSupervisor(reconnect, { maxAttempts: 2, attemptTimeoutMs: 1000 });
+    const events = record(supervisor);
+    supervisor.schedule();
+    await vi.runAllTimersAsync();
+    expect(reconnect).toHaveBeenCalledTimes(2);
+    expect(events.at(-1)?.type).toBe('gave-up');
+  });
+
+  it('ignores a schedule while an attempt is pending', () => {
+    const supervisor = new ReconnectSupervisor(() => Promise.resolve());
+    const events = record(supervisor);
+    supervisor.schedule();
+    supervisor.schedule();
+    expect(events).toHaveLength(1);
+  });
+
+  it('stays quiet when cancelled mid-attempt', async () => {
+    let fail = () => {};
+    const supervisor = new ReconnectSupervisor(() => new Promise<void>((_, reject) => {
+      fail = () => reject(new Error('down'));
+    }));
+    const events = record(supervisor);
+    supervisor.schedule();
+    await vi.advanceTimersToNextTimerAsync();
+    supervisor.cancel();
+    fail();
+    await vi.runAllTimersAsync();
+    expect(events.map((e) => e.type)).toEqual(['reconnecting']);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ReconnectOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+  /** An attempt still pending after this long counts as failed. */
+  attemptTimeoutMs: number;
+}
+
+export interface ReconnectAttempt {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+const DEFAULT_OPTIONS: ReconnectOptions = {
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  maxAttempts: 8,
+  attemptTimeoutMs: 10000,
+};
+
+/**
+ * Retries a connection with exponential backoff and jitter. An attempt that
+ * neither succeeds nor fails, as a socket to a network that's down may, is
+ * given up on after `attemptTimeoutMs`.
+ *
+ * Dispatches `reconnecting` before each attempt, `reconnected` when an
+ * attempt succeeds and `gave-up` once `maxAttempts` have failed.
+ */
+export class ReconnectSupervisor extends EventTarget {
+  private readonly reconnect: () => Promise<void>;
+  private readonly options: ReconnectOptions;
+
+  private attempt = 0;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(reconnect: () => Promise<void>, options: Partial<ReconnectOptions> = {}) {
+    super();
+    this.reconnect = reconnect;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get attempts() {
+    return this.attempt;
+  }
+
+  /** Schedules the next attempt, unless one is already pending. */
+  schedule() {
+    if (this.timeout !== null || this.running) return;
+
+    const { baseDelayMs, maxDelayMs, maxAttempts } = this.options;
+    if (this.attempt >= maxAttempts) {
+      this.attempt = 0;
+      this.dispatchEvent(new CustomEvent('gave-up'));
+      return;
+    }
+
+    this.attempt++;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (this.attempt - 1));
+    const delayMs = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    this.dispatchEvent(new CustomEvent<ReconnectAttempt>('reconnecting', {
+      detail: { attempt: this.attempt, maxAttempts, delayMs },
+    }));
+    this.timeout = setTimeout(() => this.run(), delayMs);
+  }
+
+  /** Stops any pending attempt and forgets previous failures. */
+  cancel() {
+    if (this.timeout !== null) clearTimeout(this.timeout);
+    this.timeout = null;
+    this.attempt = 0;
+  }
+
+  /** Forgets previous failures once the connection has proven stable. */
+  reset() {
+    this.attempt = 0;
+  }
+
+  private async run() {
+    this.timeout = null;
+    this.running = true;
+    const attempt = this.attempt;
+    // `attempt` drops back to 0 if cancel() is called while this is in flight
+    try {
+      await this.withinTimeout(this.reconnect());
+      this.running = false;
+      if (this.attempt === 0) return;
+      this.dispatchEvent(new CustomEvent<number>('reconnected', { detail: attempt }));
+    } catch {
+      this.running = false;
+      if (this.attempt === 0) return;
+      this.schedule();
+    }
+  }
+
+  private withinTimeout(attempt: Promise<void>) {
+    let timer: ReturnType<typeof setTimeout>;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Reconnect attempt timed out')), this.options.attemptTimeoutMs);
+    });
+    return Promise.race([attempt, timedOut]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { addWorkletModule } from './audio';
+
+export type StreamPlayerState = 'buffering' | 'playing' | 'concealing' | 'starved';
+
+export interface BufferLevel {
+  /** Seconds of audio queued ahead of the playhead. */
+  fill: number;
+  /** Seconds of audio the player waits for before (re)starting. */
+  target: number;
+  underruns: number;
+}
+
+export interface StreamPlayerOptions {
+  initialLatency: number;
+  minLatency: number;
+  maxLatency: number;
+}
+
+const DEFAULT_OPTIONS: StreamPlayerOptions = {
+  initialLatency: 2,
+  minLatency: 0.5,
+  maxLatency: 6,
+};
+
+/**
+ * Plays from a stereo ring buffer. On underrun it loops the last grain of
+ * audio through overlapping Hann windows and lets it decay, then crossfades
+ * back once enough new audio has arrived, so a late chunk is heard as a
+ * brief smear instead of a hard gap. Every underrun raises the target
+ * latency; long stretches without one lower it again.
+ */
+const PLAYER_PROCESSOR_SOURCE = `
+const CAPACITY = sampleRate * 20;
+const GRAIN = 4096;
+const HALF_GRAIN = GRAIN / 2;
+const CROSSFADE = 1024;
+const FLUSH_FADE = 2400;
+const CONCEAL_DECAY = Math.pow(0.5, 1 / (0.25 * sampleRate));
+const STATUS_INTERVAL = Math.round(0.1 * sampleRate);
+const STABLE_FRAMES = 30 * sampleRate;
+
+class StreamPlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { initialLatency, minLatency, maxLatency } = options.processorOptions;
+    this.target = initialLatency * sampleRate;
+    this.minTarget = minLatency * sampleRate;
+    this.maxTarget = maxLatency * sampleRate;
+    this.latencyStep = 0.5 * sampleRate;
+
+    this.ring = [new Float32Array(CAPACITY), new Float32Array(CAPACITY)];
+    this.readIndex = 0;
+    this.writeIndex = 0;
+    this.fill = 0;
+
+    this.history = [new Float32Array(GRAIN), new Float32Array(GRAIN)];
+    this.historyIndex = 0;
+    this.grain = [new Float32Array(GRAIN), new Float32Array(GRAIN)];
+    this.grainIndex = 0;
+    this.concealGain = 1;
+
+    this.state = 'buffering';
+    this.crossfade = 0;
+    this.flushFade = 0;
+    this.underruns = 0;
+    this.stableFrames = 0;
+    this.statusFrames = 0;
+    this.played = 0;
+
+    this.port.onmessage = (e) => {
+      if (e.data.type === 'push') this.push(e.data.channels);
+      if (e.data.type === 'flush') this.flush();
+    };
+  }
+
+  setState(state) {
+    if (this.state === state) return;
+    this.state = state;
+    this.port.postMessage({ type: 'state', state });
+  }
+
+  push(channels) {
+    const frames = channels[0].length;
+    for (let c = 0; c < 2; c++) {
+      const source = channels[c] || channels[0];
+      const head = Math.min(frames, CAPACITY - this.writeIndex);
+      this.ring[c].set(source.subarray(0, head), this.writeIndex);
+      this.ring[c].set(source.subarray(head), 0);
+    }
+    this.writeIndex = (this.writeIndex + frames) % CAPACITY;
+    this.fill += frames;
+    if (this.fill > CAPACITY) {
+      // overflowed, drop the oldest audio
+      this.readIndex = this.writeIndex;
+      this.fill = CAPACITY;
+    }
+  }
+
+  flush() {
+    if (this.state === 'playing' && this.fill > 0) {
+      this.flushFade = FLUSH_FADE;
+    } else {
+      this.clear();
+    }
+  }
+
+  clear() {
+    this.readIndex = 0;
+    this.writeIndex = 0;
+    this.fill = 0;
+    this.crossfade = 0;
+    this.flushFade = 0;
+    this.played = 0;
+    this.setState('buffering');
+  }
+
+  startConcealing() {
+    for (let c = 0; c < 2; c++) {
+      // unroll the history so the grain starts at the oldest frame
+      const tail = this.history[c].subarray(this.historyIndex);
+      this.grain[c].set(tail, 0);
+      this.grain[c].set(this.history[c].subarray(0, this.historyIndex), tail.length);
+    }
+    this.grainIndex = 0;
+    this.concealGain = 1;
+    this.underruns++;
+    this.stableFrames = 0;
+    this.target = Math.min(this.maxTarget, this.target + this.latencyStep);
+    this.setState('concealing');
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const left = output[0];
+    const right = output[1] || output[0];
+
+    for (let i = 0; i < left.length; i++) {
+      let l = 0;
+      let r = 0;
+
+      if (this.flushFade > 0 && this.fill === 0) this.clear();
+      if (this.state === 'buffering' && this.fill >= this.target) {
+        this.setState('playing');
+      }
+      if (this.state === 'playing' && this.fill === 0) {
+        this.startConcealing();
+      }
+
+      if (this.state === 'playing') {
+        l = this.ring[0][this.readIndex];
+        r = this.ring[1][this.readIndex];
+        this.readIndex = (this.readIndex + 1) % CAPACITY;
+        this.fill--;
+        this.played++;
+        this.history[0][this.historyIndex] = l;
+        this.history[1][this.historyIndex] = r;
+        this.historyIndex = (this.historyIndex + 1) % GRAIN;
+      }
+
+      if (this.state === 'concealing' || this.crossfade > 0) {
+        const a = this.grainIndex;
+        const b = (a + HALF_GRAIN) % GRAIN;
+        const wa = 0.5 - 0.5 * Math.cos(2 * Math.PI * a / GRAIN);
+        const wb = 1 - wa;
+        const gl = (this.grain[0][a] * wa + this.grain[0][b] * wb) * this.concealGain;
+        const gr = (this.grain[1][a] * wa + this.grain[1][b] * wb) * this.concealGain;
+        this.grainIndex = (a + 1) % GRAIN;
+        this.concealGain *= CONCEAL_DECAY;
+
+        if (this.crossfade > 0) {
+          const x = this.crossfade / CROSSFADE;
+          l = l * (1 - x) + gl * x;
+          r = r * (1 - x) + gr * x;
+          this.crossfade--;
+        } else {
+          l = gl;
+          r = gr;
+          if (this.fill >= this.target / 2) {
+            this.crossfade = CROSSFADE;
+            this.setState('playing');
+          } else if (this.concealGain < 0.001) {
+            this.setState('starved');
+          }
+        }
+      } else if (this.state === 'starved' && this.fill >= this.target) {
+        this.setState('playing');
+      }
+
+      if (this.flushFade > 0) {
+        const gain = this.flushFade / FLUSH_FADE;
+        l *= gain;
+        r *= gain;
+        if (--this.flushFade === 0) this.clear();
+      }
+
+      left[i] = l;
+      if (right !== left) right[i] = r;
+    }
+
+    if (this.state === 'playing') {
+      this.stableFrames += left.length;
+      if (this.stableFrames >= STABLE_FRAMES) {
+        this.stableFrames = 0;
+        this.target = Math.max(this.minTarget, this.target - this.latencyStep / 2);
+      }
+    }
+
+    this.statusFrames += left.length;
+    if (this.statusFrames >= STATUS_INTERVAL) {
+      this.statusFrames = 0;
+      this.port.postMessage({
+        type: 'status',
+        fill: this.fill / sampleRate,
+        target: this.target / sampleRate,
+        underruns: this.underruns,
+        played: this.played,
+      });
+    }
+    return true;
+  }
+}
+registerProcessor('stream-player', StreamPlayerProcessor);
+`;
+
+/**
+ * Streams decoded PCM through an AudioWorklet ring buffer.
+ *
+ * Dispatches `state-changed` as the player buffers, plays, conceals an
+ * underrun or runs dry, and `buffer-level` about ten times a second.
+ */
+export class StreamPlayer extends EventTarget {
+  /** Stable output to connect from; the worklet node is created asynchronously. */
+  readonly output: GainNode;
+
+  private readonly context: AudioContext;
+  private readonly options: StreamPlayerOptions;
+  private readonly ready: Promise<AudioWorkletNode>;
+  private playerState: StreamPlayerState = 'buffering';
+  private played = 0;
+  private playedAt = 0;
+
+  constructor(context: AudioContext, options: Partial<StreamPlayerOptions> = {}) {
+    super();
+    this.context = context;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.output = context.createGain();
+    this.ready = this.createNode();
+  }
+
+  get state() {
+    return this.playerState;
+  }
+
+  /**
+   * Frames played since the last flush, i.e. the index into everything pushed
+   * since then of what is being heard now. Extrapolated between status reports.
+   */
+  get playhead() {
+    if (this.playerState !== 'playing') return this.played;
+    return this.played + Math.round(((performance.now() - this.playedAt) / 1000) * this.context.sampleRate);
+  }
+
+  private async createNode() {
+    await addWorkletModule(this.context, PLAYER_PROCESSOR_SOURCE);
+    const node = new AudioWorkletNode(this.context, 'stream-player', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      processorOptions: this.options,
+    });
+    node.port.onmessage = (e: MessageEvent) => {
+      const { data } = e;
+      if (data.type === 'state') {
+        this.playerState = data.state;
+        this.dispatchEvent(new CustomEvent<StreamPlayerState>('state-changed', { detail: data.state }));
+      } else if (data.type === 'status') {
+        const { fill, target, underruns } = data;
+        this.played = data.played;
+        this.playedAt = performance.now();
+        this.dispatchEvent(new CustomEvent<BufferLevel>('buffer-level', { detail: { fill, target, underruns } }));
+      }
+    };
+    node.connect(this.output);
+    return node;
+  }
+
+  /** Queues one chunk of planar audio. The arrays are transferred, so callers must not reuse them. */
+  async push(channels: Float32Array[]) {
+    const node = await this.ready;
+    node.port.postMessage(
+      { type: 'push', channels },
+      channels.map((c) => c.buffer as ArrayBuffer),
+    );
+  }
+
+  /** Fades out whatever is playing and drops everything queued. */
+  async flush() {
+    this.played = 0;
+    const node = await this.ready;
+    node.port.postMessage({ type: 'flush' });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Take } from '../types';
+
+const DB_NAME = 'promptdj-midi';
+const DB_VERSION = 1;
+const STORE_NAME = 'takes';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Persists recorded takes in IndexedDB so they survive reloads. */
+export class TakeStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.dbPromise = promisify(request);
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(mode: IDBTransactionMode) {
+    const db = await this.getDb();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /** All takes, newest first. */
+  async list(): Promise<Take[]> {
+    const store = await this.getStore('readonly');
+    const takes = await promisify(store.getAll() as IDBRequest<Take[]>);
+    return takes.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async add(take: Omit<Take, 'id'>): Promise<Take> {
+    const saved: Take = { id: crypto.randomUUID(), ...take };
+    const store = await this.getStore('readwrite');
+    await promisify(store.put(saved));
+    return saved;
+  }
+
+  async delete(id: string) {
+    const store = await this.getStore('readwrite');
+    await promisify(store.delete(id));
+  }
+}
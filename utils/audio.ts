@@ -71,4 +71,82 @@ async function decodeAudioData(
   return buffer;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+/** Converts interleaved 16-bit PCM into one Float32Array per channel. */
+function deinterleave(data: Uint8Array, numChannels: number): Float32Array[] {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const frames = dataInt16.length / numChannels;
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < numChannels; c++) {
+    const channel = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      channel[i] = dataInt16[i * numChannels + c] / 32768.0;
+    }
+    channels.push(channel);
+  }
+  return channels;
+}
+
+// a processor name can only be registered once per context
+const loadedWorkletModules = new WeakMap<BaseAudioContext, Map<string, Promise<void>>>();
+
+/**
+ * Registers an AudioWorklet processor from source text, so processors can live
+ * next to the class that drives them instead of in separately served files.
+ * Safe to call again for the same context and source.
+ */
+function addWorkletModule(context: BaseAudioContext, source: string) {
+  let modules = loadedWorkletModules.get(context);
+  if (!modules) {
+    modules = new Map();
+    loadedWorkletModules.set(context, modules);
+  }
+  let loaded = modules.get(source);
+  if (!loaded) {
+    const url = URL.createObjectURL(new globalThis.Blob([source], { type: 'text/javascript' }));
+    loaded = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    modules.set(source, loaded);
+  }
+  return loaded;
+}
+
+/** Encodes planar float channels as a 16-bit PCM WAV file. */
+function encodeWav(channels: Float32Array[], sampleRate: number): globalThis.Blob {
+  const numChannels = channels.length;
+  const numFrames = numChannels > 0 ? channels[0].length : 0;
+  const bytesPerSample = 2;
+  const dataSize = numFrames * numChannels * bytesPerSample;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, 8 * bytesPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < numFrames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new globalThis.Blob([view.buffer], { type: 'audio/wav' });
+}
+
+export {addWorkletModule, createBlob, decode, decodeAudioData, deinterleave, encode, encodeWav};
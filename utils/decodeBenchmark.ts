@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decode, decodeAudioData, encode } from './audio';
+import { PcmDecoder } from './PcmDecoder';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+/** Roughly the size of a Lyria chunk. */
+const CHUNK_SECONDS = 2;
+
+function makeChunk() {
+  const samples = new Int16Array(SAMPLE_RATE * CHUNK_SECONDS * NUM_CHANNELS);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin(i / 20) * 0x3fff);
+  }
+  return encode(new Uint8Array(samples.buffer));
+}
+
+function mean(values: number[]) {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Compares main-thread time per chunk between decoding inline, as
+ * LiveMusicHelper used to, and handing the chunk to the PcmDecoder worker.
+ * Open the app with `?benchmark=decode` and read the results in the console.
+ */
+export async function runDecodeBenchmark(iterations = 30) {
+  const chunk = makeChunk();
+  const context = new OfflineAudioContext(NUM_CHANNELS, SAMPLE_RATE, SAMPLE_RATE);
+  const decoder = new PcmDecoder();
+
+  const inline: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now();
+    await decodeAudioData(decode(chunk), context as unknown as AudioContext, SAMPLE_RATE, NUM_CHANNELS);
+    inline.push(performance.now() - start);
+  }
+
+  // The wait for the worker is free for other work; what the main thread
+  // pays is the postMessage and the onmessage handler, which runs as a task
+  // of its own before the await resumes, so the decoder times both itself.
+  const roundTrip: number[] = [];
+  decoder.mainThreadMs = 0;
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now();
+    await decoder.decode(chunk, NUM_CHANNELS);
+    roundTrip.push(performance.now() - start);
+  }
+  const worker = decoder.mainThreadMs / iterations;
+  decoder.terminate();
+
+  const results = {
+    'inline (ms/chunk)': mean(inline),
+    'worker main thread (ms/chunk)': worker,
+    'worker round trip (ms/chunk)': mean(roundTrip),
+    'main thread saved (ms/chunk)': mean(inline) - worker,
+  };
+  console.table(results);
+  return results;
+}
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { ccToParamValue, GENERATION_CONFIG_PARAMS } from './generationConfig';
+import type { GenerationConfigParam } from '../types';
+
+describe('ccToParamValue', () => {
+  it('spans the param range', () => {
+    expect(ccToParamValue('bpm', 0)).toBe(60);
+    expect(ccToParamValue('bpm', 127)).toBe(200);
+  });
+
+  it('lands exactly on a step for every CC value', () => {
+    for (const param of Object.keys(GENERATION_CONFIG_PARAMS) as GenerationConfigParam[]) {
+      const { step } = GENERATION_CONFIG_PARAMS[param];
+      const decimals = String(step).split('.')[1]?.length ?? 0;
+      for (let value = 0; value < 128; value++) {
+        const result = ccToParamValue(param, value);
+        expect(result).toBe(Number(result.toFixed(decimals)));
+      }
+    }
+  });
+
+  it('rounds a temperature without float noise', () => {
+    expect(ccToParamValue('temperature', 13)).toBe(0.3);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Scale } from '@google/genai';
+import type { LiveMusicGenerationConfig } from '@google/genai';
+import type { GenerationConfig, GenerationConfigParam } from '../types';
+import { ccToRange } from './midiMapping';
+
+export interface GenerationConfigParamSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Whether the param can be left unset so the model decides. */
+  optional: boolean;
+}
+
+export const GENERATION_CONFIG_PARAMS: Record<GenerationConfigParam, GenerationConfigParamSpec> = {
+  bpm: { label: 'BPM', min: 60, max: 200, step: 1, optional: true },
+  density: { label: 'Density', min: 0, max: 1, step: 0.01, optional: true },
+  brightness: { label: 'Brightness', min: 0, max: 1, step: 0.01, optional: true },
+  guidance: { label: 'Guidance', min: 0, max: 6, step: 0.1, optional: false },
+  temperature: { label: 'Temperature', min: 0, max: 3, step: 0.1, optional: false },
+  seed: { label: 'Seed', min: 0, max: 1000, step: 1, optional: true },
+};
+
+export const SCALE_LABELS: Record<Scale, string> = {
+  [Scale.SCALE_UNSPECIFIED]: 'Auto',
+  [Scale.C_MAJOR_A_MINOR]: 'C maj / A min',
+  [Scale.D_FLAT_MAJOR_B_FLAT_MINOR]: 'D♭ maj / B♭ min',
+  [Scale.D_MAJOR_B_MINOR]: 'D maj / B min',
+  [Scale.E_FLAT_MAJOR_C_MINOR]: 'E♭ maj / C min',
+  [Scale.E_MAJOR_D_FLAT_MINOR]: 'E maj / C♯ min',
+  [Scale.F_MAJOR_D_MINOR]: 'F maj / D min',
+  [Scale.G_FLAT_MAJOR_E_FLAT_MINOR]: 'G♭ maj / E♭ min',
+  [Scale.G_MAJOR_E_MINOR]: 'G maj / E min',
+  [Scale.A_FLAT_MAJOR_F_MINOR]: 'A♭ maj / F min',
+  [Scale.A_MAJOR_G_FLAT_MINOR]: 'A maj / F♯ min',
+  [Scale.B_FLAT_MAJOR_G_MINOR]: 'B♭ maj / G min',
+  [Scale.B_MAJOR_A_FLAT_MINOR]: 'B maj / G♯ min',
+};
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  bpm: null,
+  density: null,
+  brightness: null,
+  scale: Scale.SCALE_UNSPECIFIED,
+  guidance: 4,
+  temperature: 1.1,
+  seed: null,
+};
+
+/** Maps a CC value, 0-127, onto the range of a config param. */
+export function ccToParamValue(param: GenerationConfigParam, value: number) {
+  return ccToRange(GENERATION_CONFIG_PARAMS[param], value);
+}
+
+/** The model only picks up BPM and scale changes after a context reset. */
+export function needsContextReset(prev: GenerationConfig, next: GenerationConfig) {
+  return prev.bpm !== next.bpm || prev.scale !== next.scale;
+}
+
+/** Converts the UI model to the shape the session expects, dropping unset fields. */
+export function toLiveMusicGenerationConfig(config: GenerationConfig): LiveMusicGenerationConfig {
+  const result: LiveMusicGenerationConfig = {
+    guidance: config.guidance,
+    temperature: config.temperature,
+  };
+  if (config.bpm !== null) result.bpm = config.bpm;
+  if (config.density !== null) result.density = config.density;
+  if (config.brightness !== null) result.brightness = config.brightness;
+  if (config.seed !== null) result.seed = config.seed;
+  if (config.scale !== Scale.SCALE_UNSPECIFIED) result.scale = config.scale;
+  return result;
+}
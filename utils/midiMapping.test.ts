@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyResponse,
+  ccToRange,
+  detectEncoding,
+  knobPositionFor,
+  mappingFromGesture,
+  relativeSteps,
+  takeOver,
+} from './midiMapping';
+import type { ControlChange, MidiMapping } from '../types';
+
+function changes(cc: number, values: number[]): ControlChange[] {
+  return values.map((value) => ({ deviceId: 'input-1', channel: 2, cc, value }));
+}
+
+describe('relativeSteps', () => {
+  it.each([
+    ['relative-twos', 1, 1],
+    ['relative-twos', 127, -1],
+    ['relative-twos', 120, -8],
+    ['relative-offset', 65, 1],
+    ['relative-offset', 63, -1],
+    ['relative-offset', 64, 0],
+    ['relative-signed', 3, 3],
+    ['relative-signed', 65, -1],
+    ['relative-signed', 72, -8],
+    ['absolute', 100, 0],
+  ] as const)('reads %s %i as %i steps', (encoding, value, steps) => {
+    expect(relativeSteps(encoding, value)).toBe(steps);
+  });
+});
+
+describe('detectEncoding', () => {
+  it('reads a sweep as an absolute knob', () => {
+    expect(detectEncoding([60, 61, 62, 63, 64, 65])).toBe('absolute');
+  });
+
+  it('needs a few messages to tell', () => {
+    expect(detectEncoding([1, 1])).toBe('absolute');
+  });
+
+  it("tells two's complement steps", () => {
+    expect(detectEncoding([1, 1, 2, 127, 127])).toBe('relative-twos');
+  });
+
+  it('tells binary offset steps', () => {
+    expect(detectEncoding([65, 65, 66, 63, 63])).toBe('relative-offset');
+  });
+
+  it('tells signed-bit steps', () => {
+    expect(detectEncoding([1, 1, 2, 66, 66])).toBe('relative-signed');
+  });
+});
+
+describe('mappingFromGesture', () => {
+  it('maps a plain knob without an encoding', () => {
+    expect(mappingFromGesture(changes(7, [10, 11, 12, 13]))).toEqual({ deviceId: 'input-1', channel: 2, cc: 7 });
+  });
+
+  it('keeps the encoding of a relative encoder', () => {
+    expect(mappingFromGesture(changes(7, [1, 1, 1, 127]))).toEqual({
+      deviceId: 'input-1',
+      channel: 2,
+      cc: 7,
+      encoding: 'relative-twos',
+    });
+  });
+
+  it('maps a 14-bit fader to its MSB whichever half came first', () => {
+    const expected = { deviceId: 'input-1', channel: 2, cc: 7, encoding: '14bit' };
+    expect(mappingFromGesture([...changes(7, [10]), ...changes(39, [5])])).toEqual(expected);
+    expect(mappingFromGesture([...changes(39, [5]), ...changes(7, [10])])).toEqual(expected);
+  });
+});
+
+describe('takeOver', () => {
+  it('jumps straight to the knob', () => {
+    expect(takeOver('jump', 0.8, 0.2, null)).toBe(0.2);
+  });
+
+  it('picks up a knob already at the value', () => {
+    expect(takeOver('pickup', 0.5, 0.5, null)).toBe(0.5);
+    expect(takeOver('scale', 0.5, 0.5, null)).toBe(0.5);
+  });
+
+  it('waits for a knob not heard from before', () => {
+    expect(takeOver('pickup', 0.5, 0.2, null)).toBeNull();
+    expect(takeOver('scale', 0.5, 0.2, null)).toBeNull();
+  });
+
+  it('picks up once the knob crosses the value', () => {
+    expect(takeOver('pickup', 0.5, 0.3, 0.2)).toBeNull();
+    expect(takeOver('pickup', 0.5, 0.6, 0.3)).toBe(0.6);
+    expect(takeOver('pickup', 0.5, 0.4, 0.7)).toBe(0.4);
+  });
+
+  it('scales the move so the knob and value meet at the end of its travel', () => {
+    // a quarter of the knob's way up from 0.2 takes the value a quarter of its way up from 0.6
+    expect(takeOver('scale', 0.6, 0.4, 0.2)).toBeCloseTo(0.7);
+    expect(takeOver('scale', 0.6, 1, 0.2)).toBeCloseTo(1);
+    // and likewise down
+    expect(takeOver('scale', 0.4, 0.6, 0.8)).toBeCloseTo(0.3);
+    expect(takeOver('scale', 0.4, 0, 0.8)).toBeCloseTo(0);
+  });
+
+  it('leaves the value while a scaling knob holds still', () => {
+    expect(takeOver('scale', 0.6, 0.2, 0.2)).toBeNull();
+  });
+});
+
+describe('applyResponse and knobPositionFor', () => {
+  const base: MidiMapping = { deviceId: null, channel: null, cc: 1 };
+  const mappings: Array<[string, MidiMapping]> = [
+    ['linear', base],
+    ['exponential', { ...base, curve: 'exponential' }],
+    ['s-curve', { ...base, curve: 's-curve' }],
+    ['inverted', { ...base, invert: true }],
+    ['ranged', { ...base, min: 0.25, max: 0.75 }],
+    ['everything', { ...base, curve: 'exponential', invert: true, min: 0.1, max: 0.6 }],
+  ];
+
+  it.each(mappings)('finds the knob position back from the value, %s', (_, mapping) => {
+    for (let i = 0; i <= 10; i++) {
+      const position = i / 10;
+      expect(knobPositionFor(mapping, applyResponse(mapping, position))).toBeCloseTo(position, 9);
+    }
+  });
+
+  it('spans the range, inverted or not', () => {
+    const ranged = { ...base, min: 0.25, max: 0.75 };
+    expect([applyResponse(ranged, 0), applyResponse(ranged, 1)]).toEqual([0.25, 0.75]);
+    expect([applyResponse({ ...ranged, invert: true }, 0), applyResponse({ ...ranged, invert: true }, 1)]).toEqual([0.75, 0.25]);
+  });
+
+  it('holds the knob at the end of its travel for a value out of range', () => {
+    const ranged = { ...base, min: 0.25, max: 0.75 };
+    expect(knobPositionFor(ranged, 0.1)).toBe(0);
+    expect(knobPositionFor(ranged, 0.9)).toBe(1);
+  });
+
+  it('bends the exponential curve towards the bottom of the range', () => {
+    expect(applyResponse({ ...base, curve: 'exponential' }, 0.5)).toBeLessThan(0.25);
+  });
+});
+
+describe('ccToRange', () => {
+  it('spans the range', () => {
+    expect(ccToRange({ min: -12, max: 0, step: 0.1 }, 0)).toBe(-12);
+    expect(ccToRange({ min: -12, max: 0, step: 0.1 }, 127)).toBe(0);
+  });
+
+  it('lands on a step without float noise', () => {
+    // rounding to 0.1 steps alone gives -0.30000000000000004 and -11.700000000000001
+    expect(ccToRange({ min: -12, max: 0, step: 0.1 }, 124)).toBe(-0.3);
+    expect(ccToRange({ min: -12, max: 0, step: 0.1 }, 3)).toBe(-11.7);
+    expect(ccToRange({ min: 0, max: 3, step: 0.1 }, 13)).toBe(0.3);
+  });
+
+  it('snaps both middle CCs to the centre of a bipolar range if asked', () => {
+    const bipolar = { min: -1, max: 1, step: 0.01 };
+    expect([ccToRange(bipolar, 63, { snapCentre: true }), ccToRange(bipolar, 64, { snapCentre: true })]).toEqual([0, 0]);
+    expect(ccToRange(bipolar, 63)).toBe(-0.01);
+  });
+});
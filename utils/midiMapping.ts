@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  CcEncoding,
+  ControlChange,
+  ControlMapping,
+  ControlValue,
+  MidiMapping,
+  NoteMapping,
+  NoteMessage,
+  NrpnMessage,
+  ProgramChange,
+  ProgramMapping,
+  ResponseCurve,
+  TakeoverPolicy,
+} from '../types';
+
+/** The furthest a relative encoder is taken to move in one message. */
+const MAX_RELATIVE_STEP = 15;
+/** How close, 0-1, a knob has to come to its control's value to pick it up. */
+const PICKUP_TOLERANCE = 1 / 127;
+/** How sharply the exponential curve bends; the first half of the knob covers about an eighth of the range. */
+const EXPONENTIAL_STEEPNESS = 4;
+
+const CURVES: Record<ResponseCurve, { apply: (x: number) => number; inverse: (y: number) => number }> = {
+  'linear': {
+    apply: (x) => x,
+    inverse: (y) => y,
+  },
+  'exponential': {
+    apply: (x) => Math.expm1(EXPONENTIAL_STEEPNESS * x) / Math.expm1(EXPONENTIAL_STEEPNESS),
+    inverse: (y) => Math.log1p(y * Math.expm1(EXPONENTIAL_STEEPNESS)) / EXPONENTIAL_STEEPNESS,
+  },
+  // fine control at both ends, quick through the middle
+  's-curve': {
+    apply: (x) => (1 - Math.cos(Math.PI * x)) / 2,
+    inverse: (y) => Math.acos(1 - 2 * y) / Math.PI,
+  },
+};
+
+/** A mapping for `cc` on any device and channel, as the default knob layout uses. */
+export function ccMapping(cc: number): MidiMapping {
+  return { deviceId: null, channel: null, cc };
+}
+
+/** The default layout: the knobs in order on CCs from 0. */
+export function defaultPromptMappings(promptIds: string[]): Record<string, MidiMapping> {
+  return Object.fromEntries(promptIds.map((promptId, i) => [promptId, ccMapping(i)]));
+}
+
+/** Where a prompt's pad mapping is kept, beside its knob's. */
+export function padControlId(promptId: string) {
+  return `${promptId}:pad`;
+}
+
+export function isNoteMapping(mapping: ControlMapping): mapping is NoteMapping {
+  return 'note' in mapping;
+}
+
+export function isProgramMapping(mapping: ControlMapping): mapping is ProgramMapping {
+  return 'program' in mapping;
+}
+
+/** Whether a mapping is to a CC or NRPN, the kinds with an encoding, range and curve. */
+export function isCcMapping(mapping: ControlMapping): mapping is MidiMapping {
+  return 'cc' in mapping;
+}
+
+/** The mapping a learned message pins down: its device, channel and CC. */
+export function mappingFrom(change: ControlChange): MidiMapping {
+  const { deviceId, channel, cc } = change;
+  return { deviceId, channel, cc };
+}
+
+/** The mapping a learned NRPN parameter pins down. */
+export function nrpnMappingFrom(message: NrpnMessage): MidiMapping {
+  const { deviceId, channel, parameter } = message;
+  return { deviceId, channel, cc: parameter, encoding: 'nrpn' };
+}
+
+export function encodingOf(mapping: MidiMapping): CcEncoding {
+  return mapping.encoding ?? 'absolute';
+}
+
+export function isRelative(encoding: CcEncoding) {
+  return encoding.startsWith('relative');
+}
+
+export function takeoverOf(mapping: ControlMapping): TakeoverPolicy {
+  return isCcMapping(mapping) ? mapping.takeover ?? 'jump' : 'jump';
+}
+
+/** The part of its control's range, 0-1, a mapping's knob covers. */
+export function rangeOf(mapping: ControlMapping) {
+  return isCcMapping(mapping) ? { min: mapping.min ?? 0, max: mapping.max ?? 1 } : { min: 0, max: 1 };
+}
+
+/** Where a knob at `position`, 0-1, puts its control, through the mapping's inversion, curve and range. */
+export function applyResponse(mapping: MidiMapping, position: number) {
+  const { min, max } = rangeOf(mapping);
+  const x = mapping.invert ? 1 - position : position;
+  return min + CURVES[mapping.curve ?? 'linear'].apply(x) * (max - min);
+}
+
+/** The knob position that puts the control at `value`, as near as the knob's travel reaches. */
+export function knobPositionFor(mapping: MidiMapping, value: number) {
+  const { min, max } = rangeOf(mapping);
+  const y = max > min ? Math.min(Math.max((value - min) / (max - min), 0), 1) : 0;
+  const x = CURVES[mapping.curve ?? 'linear'].inverse(y);
+  return mapping.invert ? 1 - x : x;
+}
+
+/**
+ * Where a control at `current` goes when its knob moves from `previous` to
+ * `position`, all 0-1, under `policy`. Null while the knob has yet to pick
+ * the control up; a knob not heard from before has no direction to go by.
+ */
+export function takeOver(policy: TakeoverPolicy, current: number, position: number, previous: number | null) {
+  if (policy === 'jump' || Math.abs(position - current) <= PICKUP_TOLERANCE) return position;
+  if (previous === null) return null;
+  if (policy === 'pickup') {
+    // picked up once the knob has crossed the value
+    return (previous - current) * (position - current) <= 0 ? position : null;
+  }
+  if (position > previous) return current + ((position - previous) * (1 - current)) / (1 - previous);
+  if (position < previous) return current - ((previous - position) * current) / previous;
+  return null;
+}
+
+/** A control following its knob, as worked out by `followKnob`. */
+export interface KnobFollow {
+  /** The control's new value, 0-1, or null to leave it be. */
+  value: number | null;
+  /** Where the knob is now, to pass back in with its next message. */
+  knobPosition: number | null;
+  awaitingPickup: boolean;
+}
+
+/**
+ * Moves a control at `current`, 0-1, by a decoded value from its mapping.
+ * Takeover and relative steps work on the knob's travel, which the mapping's
+ * response then spreads over the control's range. `knobPosition` is where the
+ * knob was last heard from.
+ */
+export function followKnob(
+  mapping: ControlMapping | null,
+  current: number,
+  input: ControlValue,
+  knobPosition: number | null,
+): KnobFollow {
+  const cc = mapping && isCcMapping(mapping) ? mapping : null;
+  const respond = (position: number) => (cc ? applyResponse(cc, position) : position);
+  const currentPosition = cc ? knobPositionFor(cc, current) : current;
+  if (input.type === 'relative') {
+    const position = Math.min(Math.max(currentPosition + input.delta, 0), 1);
+    return { value: respond(position), knobPosition, awaitingPickup: false };
+  }
+  const position = takeOver(cc ? takeoverOf(cc) : 'jump', currentPosition, input.value, knobPosition);
+  return {
+    value: position === null ? null : respond(position),
+    knobPosition: input.value,
+    awaitingPickup: position !== input.value,
+  };
+}
+
+/** How many steps a relative encoder's value moves, negative for down. */
+export function relativeSteps(encoding: CcEncoding, value: number) {
+  switch (encoding) {
+    case 'relative-twos':
+      return value < 64 ? value : value - 128;
+    case 'relative-offset':
+      return value - 64;
+    case 'relative-signed':
+      return value & 64 ? -(value & 63) : value;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Tells a relative encoder from a knob or fader by the values one CC sent
+ * while being learned: an encoder repeats a few small steps, where an
+ * absolute control sweeps through distinct positions.
+ */
+export function detectEncoding(values: number[]): CcEncoding {
+  if (values.length < 3 || new Set(values).size > Math.ceil(values.length / 2)) {
+    return 'absolute';
+  }
+  const within = (from: number, to: number) => (value: number) => value >= from && value <= to;
+  const up = within(1, MAX_RELATIVE_STEP);
+  // 65-79 alone also reads as signed steps down, but binary offset is the commoner default
+  if (values.every((v) => v !== 64 && within(64 - MAX_RELATIVE_STEP, 64 + MAX_RELATIVE_STEP)(v))) {
+    return 'relative-offset';
+  }
+  if (values.every((v) => up(v) || within(128 - MAX_RELATIVE_STEP, 127)(v))) {
+    return 'relative-twos';
+  }
+  if (values.every((v) => up(v) || within(65, 64 + MAX_RELATIVE_STEP)(v))) {
+    return 'relative-signed';
+  }
+  return 'absolute';
+}
+
+/**
+ * The mapping for the CC messages one control sent while being learned. A
+ * high-res fader shows itself by sending the LSB 32 above its first CC.
+ */
+export function mappingFromGesture(changes: ControlChange[]): MidiMapping {
+  const [first] = changes;
+  const ccs = new Set(changes.map((change) => change.cc));
+  const msb = first.cc >= 32 && first.cc < 64 && ccs.has(first.cc - 32) ? first.cc - 32 : first.cc;
+  if (msb < 32 && ccs.has(msb + 32)) {
+    return { ...mappingFrom(first), cc: msb, encoding: '14bit' };
+  }
+  const encoding = detectEncoding(changes.filter((change) => change.cc === first.cc).map((change) => change.value));
+  return encoding === 'absolute' ? mappingFrom(first) : { ...mappingFrom(first), encoding };
+}
+
+/** The mapping a learned pad or key pins down. */
+export function noteMappingFrom(message: NoteMessage): NoteMapping {
+  const { deviceId, channel, note } = message;
+  return { deviceId, channel, note };
+}
+
+/** The mapping a learned program change pins down. */
+export function programMappingFrom(change: ProgramChange): ProgramMapping {
+  const { deviceId, channel, program } = change;
+  return { deviceId, channel, program };
+}
+
+function matchesSource(mapping: ControlMapping, message: { deviceId: string; channel: number }) {
+  return (mapping.channel === null || mapping.channel === message.channel)
+    && (mapping.deviceId === null || mapping.deviceId === message.deviceId);
+}
+
+/** Whether `change` drives `mapping`, counting a 14-bit mapping's LSB. NRPN mappings never match a plain CC. */
+export function matchesMapping(mapping: ControlMapping, change: ControlChange) {
+  if (!isCcMapping(mapping) || !matchesSource(mapping, change)) return false;
+  switch (encodingOf(mapping)) {
+    case 'nrpn':
+      return false;
+    case '14bit':
+      return change.cc === mapping.cc || change.cc === mapping.cc + 32;
+    default:
+      return change.cc === mapping.cc;
+  }
+}
+
+export function matchesNrpn(mapping: ControlMapping, message: NrpnMessage) {
+  return isCcMapping(mapping) && encodingOf(mapping) === 'nrpn'
+    && mapping.cc === message.parameter && matchesSource(mapping, message);
+}
+
+export function matchesNote(mapping: ControlMapping, message: NoteMessage) {
+  return isNoteMapping(mapping) && mapping.note === message.note && matchesSource(mapping, message);
+}
+
+export function matchesProgram(mapping: ControlMapping, change: ProgramChange) {
+  return isProgramMapping(mapping) && mapping.program === change.program && matchesSource(mapping, change);
+}
+
+const ENCODING_SUFFIXES: Record<CcEncoding, string> = {
+  'absolute': '',
+  'relative-twos': ' rel',
+  'relative-offset': ' rel',
+  'relative-signed': ' rel',
+  '14bit': ' 14b',
+  'nrpn': '',
+};
+
+function describeCc(mapping: MidiMapping) {
+  const encoding = encodingOf(mapping);
+  const label = encoding === 'nrpn' ? `NRPN:${mapping.cc}` : `CC:${mapping.cc}`;
+  return label + ENCODING_SUFFIXES[encoding];
+}
+
+function describeMessage(mapping: ControlMapping) {
+  if (isNoteMapping(mapping)) return `NOTE:${mapping.note}`;
+  // programs are shown 1-128, as on the bank panel
+  if (isProgramMapping(mapping)) return `PC:${mapping.program + 1}`;
+  return describeCc(mapping);
+}
+
+/**
+ * Badge text, e.g. `CC:7`, `CC:7 rel ch2`, `NRPN:1200`, `NOTE:36` or `PC:5`.
+ * Channels are shown 1-based.
+ */
+export function describeMapping(mapping: ControlMapping | null) {
+  if (!mapping) return 'CC:-';
+  const label = describeMessage(mapping);
+  return mapping.channel === null ? label : `${label} ch${mapping.channel + 1}`;
+}
+
+/** The range and step a CC is mapped onto, as the panels' param specs give them. */
+export interface CcRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Maps a CC value, 0-127, onto `range`, landing on a step. With `snapCentre`,
+ * a bipolar range's centre, which 7 bits have no exact value for, is given
+ * to both 63 and 64.
+ */
+export function ccToRange({ min, max, step }: CcRange, value: number, { snapCentre = false } = {}) {
+  if (snapCentre && min < 0 && max > 0 && value >= 63 && value <= 64) return 0;
+  const raw = min + (value / 127) * (max - min);
+  // rounded to the step's decimals, so 0.1 steps give 0.3 and not 0.30000000000000004
+  const decimals = String(step).split('.')[1]?.length ?? 0;
+  return Number((Math.round(raw / step) * step).toFixed(decimals));
+}
+
+/** A control's position in the 0-127 range `cc-value` events carry. */
+export function rangeToCc(value: number, min: number, max: number) {
+  return ((value - min) / (max - min)) * 127;
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiMapping, MidiProfile } from '../types';
+
+/** Maps the prompt knobs in order onto `ccs`, on any channel so every bank or template answers. */
+function knobs(ccs: number[]): Record<string, MidiMapping> {
+  return Object.fromEntries(
+    ccs.map((cc, i) => [`prompt-${i}`, { deviceId: null, channel: null, cc }]),
+  );
+}
+
+function range(start: number, count: number) {
+  return Array.from({ length: count }, (_, i) => start + i);
+}
+
+/**
+ * Factory layouts of popular 16-knob controllers, read-only. They map
+ * prompt-0 to prompt-15 only, so in DJ mode they cover deck A and deck B
+ * keeps its default CCs 16-31.
+ */
+export const PRESET_PROFILES: MidiProfile[] = [
+  {
+    name: 'Midi Fighter Twister',
+    deviceName: 'Midi Fighter Twister',
+    mappings: knobs(range(0, 16)),
+  },
+  {
+    name: 'Arturia BeatStep',
+    deviceName: 'BeatStep',
+    mappings: knobs([10, 74, 71, 76, 77, 93, 73, 75, 114, 18, 19, 16, 17, 91, 79, 72]),
+  },
+  {
+    // knobs along the top row, faders along the bottom
+    name: 'Korg nanoKONTROL2',
+    deviceName: 'nanoKONTROL2',
+    mappings: knobs([...range(16, 8), ...range(0, 8)]),
+  },
+  {
+    // the top two rows of knobs
+    name: 'Novation Launch Control XL',
+    deviceName: 'Launch Control XL',
+    mappings: knobs([...range(13, 8), ...range(29, 8)]),
+  },
+];
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { coalesce } from './throttle';
+
+describe('coalesce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('calls straight through outside the window', () => {
+    const func = vi.fn();
+    const coalesced = coalesce(func, 100);
+    coalesced(1);
+    expect(func).toHaveBeenCalledWith(1);
+  });
+
+  it('sends the last call of a burst at the end of the window', () => {
+    const func = vi.fn();
+    const coalesced = coalesce(func, 100);
+    coalesced(1);
+    coalesced(2);
+    coalesced(3);
+    expect(func).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(100);
+    expect(func).toHaveBeenCalledTimes(2);
+    expect(func).toHaveBeenLastCalledWith(3);
+  });
+
+  it('never drops the final value of a sweep', () => {
+    const func = vi.fn();
+    const coalesced = coalesce(func, 100);
+    for (let i = 0; i <= 10; i++) {
+      coalesced(i);
+      vi.advanceTimersByTime(30);
+    }
+    vi.runAllTimers();
+    expect(func).toHaveBeenLastCalledWith(10);
+  });
+});
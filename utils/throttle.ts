@@ -22,3 +22,34 @@ export function throttle<T extends (...args: Parameters<T>) => ReturnType<T>>(
     return lastResult;
   };
 }
+
+/**
+ * Like `throttle`, but a call that lands inside the window is deferred to the
+ * end of it instead of dropped, so the most recent arguments always go through.
+ */
+export function coalesce<T extends (...args: Parameters<T>) => unknown>(
+  func: T,
+  delay: number,
+): (...args: Parameters<T>) => void {
+  let lastCall = -Infinity;
+  let pendingArgs: Parameters<T> | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  const flush = () => {
+    timeout = null;
+    if (!pendingArgs) return;
+    const args = pendingArgs;
+    pendingArgs = null;
+    lastCall = Date.now();
+    func(...args);
+  };
+  return (...args: Parameters<T>) => {
+    pendingArgs = args;
+    if (timeout !== null) return;
+    const wait = lastCall + delay - Date.now();
+    if (wait <= 0) {
+      flush();
+    } else {
+      timeout = setTimeout(flush, wait);
+    }
+  };
+}